@@ -82,14 +82,28 @@ var compile = function() {
 };
 gulp.task('compile', compile);
 
+// The emitted maquette.d.ts refers to src/jsx.d.ts, which is shipped next to it in dist instead
+var referToShippedJsxTypings = function() {
+  var stream = new (require('stream').Transform)({ objectMode: true });
+  stream._transform = function(file, encoding, callback) {
+    var contents = file.contents.toString().replace(/(\/\/\/ <reference path=")[^"]*jsx\.d\.ts"/, '$1jsx.d.ts"');
+    file.contents = new Buffer(contents);
+    callback(null, file);
+  };
+  return stream;
+};
+
 gulp.task('declaration', function() {
   var configTypescript = require('./tsconfig.json').compilerOptions;
   configTypescript.declaration = true;
   configTypescript.typescript = require('typescript');
-	return gulp.src('src/**/*.ts')
-		.pipe(ts(configTypescript))
-    .dts
-		.pipe(gulp.dest('dist'));
+	return merge([
+    gulp.src('src/**/*.ts')
+      .pipe(ts(configTypescript))
+      .dts
+      .pipe(referToShippedJsxTypings()),
+    gulp.src('src/jsx.d.ts')
+  ]).pipe(gulp.dest('dist'));
 });
 
 gulp.task('test', ['compile'], function() {
@@ -127,12 +141,28 @@ gulp.task('dist-min', ['dist'], function() {
       loadMaps: true
     }))
     .pipe(wrapJS(umdTemplate))
-    .pipe(uglify())
+    // Removes the development mode diagnostics
+    .pipe(uglify({ compress: { global_defs: { MAQUETTE_MIN: true } } }))
     .pipe(rename({extname: '.min.js'}))
     .pipe(sourcemaps.write('./'))
     .pipe(gulp.dest('./dist'));
 });
 
+// The server module is only meant for node.js, so it does not need the UMD wrapper
+gulp.task('dist-server', ['compile'], function() {
+  return gulp.src('build/js/src/server.js')
+    .pipe(sourcemaps.init({
+      loadMaps: true
+    }))
+    .pipe(sourcemaps.write('./'))
+    .pipe(gulp.dest('./dist'));
+});
+
+// maquette.min.js grew from 3339 to 8026 bytes gzipped (7.8 kB) when hydration, fragments, namespaces, custom elements,
+// shadow DOM and the development mode (which is stripped from maquette.min.js) were added.
+// Server-side rendering lives in dist/server.js, so it does not count.
+var MAX_GZIPPED_SIZE = 9 * 1024;
+
 gulp.task('check-size', ['dist-min'], function(callback) {
   var zlib = require('zlib');
   var fs = require('fs');
@@ -144,8 +174,8 @@ gulp.task('check-size', ['dist-min'], function(callback) {
   });
   stream.on('end', function() {
     console.log('gzipped size in kB:', length/1024);
-    if (length >= 3.5 * 1024) {
-      return callback(new Error('Claim that maquette is only 3 kB gzipped no longer holds'));
+    if (length >= MAX_GZIPPED_SIZE) {
+      return callback(new Error('Claim that maquette is less than 9 kB gzipped no longer holds'));
     }
     callback();
   });
@@ -179,7 +209,7 @@ gulp.task('typedoc', function() {
     }));
 });
 
-gulp.task('default', ['coverage', 'compress', 'dist-min', 'check-size', 'declaration']);
+gulp.task('default', ['coverage', 'compress', 'dist-min', 'dist-server', 'check-size', 'declaration']);
 
 function inc(importance) {
   // get all the files to bump version in
@@ -0,0 +1,5 @@
+/**
+ * The global JSX namespace, maquette adds its typings to it from within the module, see [[jsx]].
+ */
+declare namespace JSX {
+}
@@ -1,3 +1,4 @@
+/// <reference path="jsx.d.ts" />
 // Comment that is displayed in the API documentation for the maquette module:
 /**
  * Welcome to the API documentation of the **maquette** library.
@@ -35,25 +36,26 @@ export interface VNode {
 /**
  * A projector is used to create the real DOM from the the virtual DOM and to keep it up-to-date afterwards.
  *
- * You can call [[append]], [[merge]], [[insertBefore]] and [[replace]] to add the virtual DOM to the real DOM.
+ * You can call [[append]], [[merge]], [[hydrate]], [[insertBefore]] and [[replace]] to add the virtual DOM to the real DOM.
  * The `renderMaquetteFunction` callbacks will be called to create the real DOM immediately.
- * Afterwards, the `renderMaquetteFunction` callbacks will be called again to update the DOM on the next animation-frame after:
+ * Afterwards, the `renderMaquetteFunction` callbacks will be called again to update the DOM on the next animation-frame
+ * (or whenever the [[ProjectorOptions.scheduler]] decides) after:
  *
  *  - The Projector's [[scheduleRender]] function  was called
  *  - An event handler (like `onclick`) on a rendered [[VNode]] was called.
  *
  * The projector stops when [[stop]] is called or when an error is thrown during rendering.
- * It is possible to use `window.onerror` to handle these errors.
+ * It is possible to use `window.onerror` to handle these errors, or [[ProjectorOptions.onRenderError]] to keep the projector running.
  * Instances of [[Projector]] can be created using [[createProjector]].
  */
 export interface Projector {
   /**
    * Appends a new childnode to the DOM using the result from the provided `renderMaquetteFunction`.
    * The `renderMaquetteFunction` will be invoked again to update the DOM when needed.
-   * @param parentNode - The parent node for the new childNode.
+   * @param parentNode - The parent node for the new childNode. This may also be a shadow root.
    * @param renderMaquetteFunction - Function with zero arguments that returns a [[VNode]] tree.
    */
-  append(parentNode: Element, renderMaquetteFunction: () => VNode): void;
+  append(parentNode: Element | DocumentFragment, renderMaquetteFunction: () => VNode): void;
   /**
    * Inserts a new DOM node using the result from the provided `renderMaquetteFunction`.
    * The `renderMaquetteFunction` will be invoked again to update the DOM when needed.
@@ -70,6 +72,14 @@ export interface Projector {
    * @param renderMaquetteFunction - Function with zero arguments that returns a [[VNode]] tree.
    */
   merge(domNode: Element, renderMaquetteFunction: () => VNode): void;
+  /**
+   * Adopts existing DOM nodes, usually rendered on the server using [[toHTML]], using the result from the provided `renderMaquetteFunction`.
+   * Unlike [[merge]], existing childnodes are matched with the virtual DOM instead of being appended to, see [[dom.hydrate]].
+   * The `renderMaquetteFunction` will be invoked again to update the DOM when needed.
+   * @param domNode - The existing element to adopt as the root of the new virtual DOM.
+   * @param renderMaquetteFunction - Function with zero arguments that returns a [[VNode]] tree.
+   */
+  hydrate(domNode: Element, renderMaquetteFunction: () => VNode): void;
   /**
    * Replaces an existing DOM node with the result from the provided `renderMaquetteFunction`.
    * The `renderMaquetteFunction` will be invoked again to update the DOM when needed.
@@ -77,8 +87,17 @@ export interface Projector {
    * @param renderMaquetteFunction - Function with zero arguments that returns a [[VNode]] tree.
    */
   replace(domNode: Element, renderMaquetteFunction: () => VNode): void;
+  /**
+   * Attaches a shadow root to `host` and appends a new DOM node to it using the result from the provided `renderMaquetteFunction`.
+   * The [[VNodeProperties.styleSheets]] of the root [[VNode]] are rendered inside the shadow root, see [[dom.attachShadow]].
+   * The `renderMaquetteFunction` will be invoked again to update the DOM and the style sheets when needed.
+   * @param host - The element to attach the shadow root to.
+   * @param renderMaquetteFunction - Function with zero arguments that returns a [[VNode]] tree.
+   */
+  attachShadow(host: Element, renderMaquetteFunction: () => VNode): void;
   /**
    * Resumes the projector. Use this method to resume rendering after [[stop]] was called or an error occurred during rendering.
+   * The [[VNodeProperties.afterCreate]] callbacks are executed again for the DOM of the projections that were stopped.
    */
   resume(): void;
   /**
@@ -88,9 +107,25 @@ export interface Projector {
    * You need to call this method when timeouts expire, when AJAX responses arrive or other asynchronous actions happen.
    */
   scheduleRender(): void;
+  /**
+   * Renders all registered `renderMaquetteFunction`s to the DOM right away, instead of waiting for the next animation-frame.
+   * A render that was scheduled using [[scheduleRender]] is cancelled, because it is no longer needed.
+   * This is useful in tests and when the layout needs to be measured right after a change. This method does nothing while the
+   * projector is stopped.
+   */
+  renderNow(): void;
+  /**
+   * Registers a callback that is invoked once after the next render has completed.
+   * When no render is scheduled, the callback is invoked immediately.
+   *
+   * @param callback - Function that is invoked after the DOM has been updated.
+   */
+  whenRendered(callback: () => void): void;
   /**
    * Stops running the `renderMaquetteFunction` to update the DOM. The `renderMaquetteFunction` must have been
-   * registered using [[append]], [[merge]], [[insertBefore]] or [[replace]].
+   * registered using [[append]], [[merge]], [[hydrate]], [[insertBefore]], [[replace]] or [[attachShadow]].
+   *
+   * The DOM is left in place, but the [[VNodeProperties.afterRemoved]] callbacks are executed because the DOM is no longer maintained.
    *
    * @returns The [[Projection]] which was created using this `renderMaquetteFunction`.
    * The [[Projection]] contains a reference to the DOM Node that was rendered.
@@ -101,6 +136,8 @@ export interface Projector {
    *
    * Note that calling [[stop]] is not mandatory. A projector is a passive object that will get garbage collected
    * as usual if it is no longer in scope.
+   * The DOM is left in place, but the [[VNodeProperties.afterRemoved]] callbacks are executed because the DOM is no longer maintained.
+   * When rendering is resumed using [[resume]], the [[VNodeProperties.afterCreate]] callbacks are executed again.
    */
   stop(): void;
 }
@@ -131,6 +168,100 @@ export interface TransitionStrategy {
   exit(element: Element, properties: VNodeProperties, exitAnimation: string, removeElement: () => void): void;
 };
 
+/**
+ * Decides when a [[Projector]] renders after [[Projector.scheduleRender]] was called.
+ * Maquette provides implementations in [[schedulers]] and [[createManualScheduler]].
+ */
+export interface Scheduler {
+  /**
+   * Arranges for `callback` to be invoked later, like `requestAnimationFrame` does.
+   *
+   * @param callback  The function to invoke.
+   * @returns         A handle that can be passed to [[cancel]].
+   */
+  schedule(callback: () => void): number;
+  /**
+   * Prevents a callback that was scheduled using [[schedule]] from being invoked, like `cancelAnimationFrame` does.
+   *
+   * @param handle    The handle that was returned by [[schedule]].
+   */
+  cancel(handle: number): void;
+}
+
+/**
+ * A [[Scheduler]] that only invokes callbacks when [[flush]] is called.
+ * Useful in unit tests and in environments where the host decides when rendering takes place.
+ * Instances can be created using [[createManualScheduler]].
+ */
+export interface ManualScheduler extends Scheduler {
+  /**
+   * Invokes all callbacks that were scheduled and not cancelled.
+   */
+  flush(): void;
+}
+
+/**
+ * Counts the changes that maquette made to the DOM, see [[ProjectionOptions.mutationCounts]].
+ */
+export interface MutationCounts {
+  /**
+   * The number of elements and text nodes that were created.
+   */
+  nodesCreated: number;
+  /**
+   * The number of nodes that were removed, not counting the descendants of these nodes.
+   */
+  nodesRemoved: number;
+  /**
+   * The number of nodes that were moved to a different position among their siblings.
+   */
+  nodesMoved: number;
+  /**
+   * The number of existing elements of which properties, attributes, classes or styles were updated.
+   */
+  nodesUpdated: number;
+  /**
+   * The number of attributes that were set or removed.
+   */
+  attributesChanged: number;
+  /**
+   * The number of times the text of a node was replaced.
+   */
+  textReplaced: number;
+}
+
+/**
+ * Describes how one [[Projection]] was rendered, see [[RenderReport]].
+ */
+export interface ProjectionRenderReport {
+  /**
+   * The function that was rendered, or `undefined` for a component that was invalidated using [[invalidateComponent]].
+   */
+  renderMaquetteFunction: () => VNode;
+  /**
+   * The time in milliseconds that rendering the virtual DOM and updating the real DOM took.
+   */
+  duration: number;
+  /**
+   * The changes that were made to the DOM.
+   */
+  mutations: MutationCounts;
+}
+
+/**
+ * Describes a render of the [[Projector]], see [[ProjectorOptions.afterRender]].
+ */
+export interface RenderReport {
+  /**
+   * The time in milliseconds that the whole render took.
+   */
+  duration: number;
+  /**
+   * One entry for every [[Projection]] that was rendered and for every component that was invalidated.
+   */
+  projections: ProjectionRenderReport[];
+}
+
 /**
  * Options that may be passed when creating the [[Projector]]
  */
@@ -151,6 +282,67 @@ export interface ProjectorOptions {
    * @param value     The value of this style, for example `rotate(45deg)`.
    */
   styleApplyer?(domNode: HTMLElement, styleName: string, value: string): void;
+  /**
+   * Called when [[dom.hydrate]] finds a difference between the existing DOM and the virtual DOM.
+   * The DOM is repaired regardless, this callback can be used to log these differences during development.
+   *
+   * @param message   A description of the difference.
+   * @param domNode   The DOM Node where the difference was found.
+   * @param vnode     The [[VNode]] that was expected, or the parent [[VNode]] when the DOM contained an unexpected node.
+   */
+  onHydrationMismatch?(message: string, domNode: Node, vnode: VNode): void;
+  /**
+   * When true, event handlers like `onclick` are not placed on every DOM node. Instead, a single event listener per event type
+   * is added to the root of each [[Projection]], which invokes the handler of the nearest DOM node that has one.
+   * This saves memory and time when rendering large lists. Event handlers are still invoked with `this` set to the
+   * [[VNodeProperties.bind]] value and returning `false` still prevents the default action.
+   * While a handler runs, `evt.currentTarget` is the DOM node of the handler, just like without event delegation.
+   * Listeners from [[VNodeProperties.on]] and custom event handlers like `on-value-changed` are not delegated.
+   */
+  eventDelegation?: boolean;
+  /**
+   * When true, the values for custom elements (elements with a dash in their tagname, like `<my-date-picker>`) are always
+   * assigned as properties of the DOM node, even when they are strings. Names that contain a dash or a colon, like `aria-label`,
+   * are still set as attributes. Use [[VNodeProperties.attrs]] to set other attributes on custom elements.
+   */
+  customElementProperties?: boolean;
+  /**
+   * Decides when the projector renders after [[Projector.scheduleRender]] was called.
+   * Defaults to [[schedulers.animationFrame]], which uses `requestAnimationFrame`.
+   */
+  scheduler?: Scheduler;
+  /**
+   * Called when a `renderMaquetteFunction` throws an error, or when updating the DOM of its [[Projection]] fails.
+   * When this callback is provided, every projection handles its own errors: the other projections are still rendered
+   * and the projector keeps running, so the failing `renderMaquetteFunction` is tried again on the next render.
+   * When updating the DOM failed halfway, the DOM of the projection is created again on the next render.
+   * Without this callback, the error is thrown and the projector stops rendering until [[Projector.resume]] is called.
+   * When the error occurs while the projection is being added, for example by [[Projector.append]], the error is still thrown
+   * unless a [[VNode]] is returned.
+   *
+   * @param error                   The error that was thrown.
+   * @param renderMaquetteFunction  The function that was being rendered, or `undefined` when a component that was invalidated
+   *                                using [[invalidateComponent]] failed.
+   * @returns                       An optional [[VNode]] that is rendered in place of the failing projection, for example an error message.
+   */
+  onRenderError?(error: any, renderMaquetteFunction: () => VNode): VNode | void;
+  /**
+   * Called before the projector renders, after [[Projector.scheduleRender]] or [[Projector.renderNow]].
+   */
+  beforeRender?(): void;
+  /**
+   * Called after the projector has rendered. Useful for development tools and for detecting performance regressions.
+   *
+   * @param report  How long rendering took and which changes were made to the DOM, for every projection.
+   */
+  afterRender?(report: RenderReport): void;
+  /**
+   * When true, maquette keeps track of the path of selectors and keys while rendering, adds this path to the errors it throws and
+   * warns about common mistakes using `console.warn`, like siblings with the same key and [[VNode]]s that were modified
+   * after they were rendered. This makes rendering slower, so it should only be used during development.
+   * Development mode is not available in `maquette.min.js`.
+   */
+  devMode?: boolean;
 };
 
 /**
@@ -158,16 +350,36 @@ export interface ProjectorOptions {
  */
 export interface ProjectionOptions extends ProjectorOptions {
   /**
-   * Only for internal use. Used for rendering SVG Nodes.
+   * The namespace of the elements that are created, `undefined` for HTML.
+   * Maquette keeps track of the namespace while rendering: `<svg>` and `<math>` switch to the SVG and MathML namespaces
+   * and the children of an svg `<foreignObject>` are HTML again.
+   * When rendering starts at an existing SVG or MathML element, its namespace is used.
    */
   namespace?: string;
+  /**
+   * Only for internal use. The event types that need to be handled by the root of a projection when [[eventDelegation]] is used.
+   */
+  delegatedEventNames?: string[];
+  /**
+   * Only for internal use. Used by the [[Projector]] to render a component that called [[invalidateComponent]] on the next animation frame.
+   */
+  scheduleComponentRender?: (render: () => void) => void;
+  /**
+   * When provided, the counts are increased for every change that maquette makes to the DOM.
+   * Used by the [[Projector]] for [[ProjectorOptions.afterRender]].
+   */
+  mutationCounts?: MutationCounts;
+  /**
+   * Only for internal use. The selectors and keys of the [[VNode]]s that are being rendered when [[devMode]] is used.
+   */
+  devPath?: string[];
   /**
    * May be used to intercept registration of event-handlers.
    *
    * Used by the [[Projector]] to wrap eventHandler-calls to call [[scheduleRender]] as well.
    *
    * @param propertyName             The name of the property to be assigned, for example onclick
-   * @param eventHandler             The function that was registered on the [[VNode]]
+   * @param eventHandler             A function that invokes the event handler that is registered on the latest version of the [[VNode]]
    * @param domNode                  The real DOM element
    * @param properties               The whole set of properties that was put on the VNode
    * @returns                        The function that is to be placed on the DOM node as the event handler, instead of `eventHandler`.
@@ -233,6 +445,28 @@ export interface VNodeProperties {
    */
   afterUpdate?(element: Element, projectionOptions: ProjectionOptions, vnodeSelector: string, properties: VNodeProperties,
     children: VNode[]): void;
+  /**
+   * Callback that is executed after this node, or one of its ancestors, is removed from the DOM.
+   * If an `exitAnimation` is running, this callback is executed after the animation has removed the element.
+   * This callback is also executed when the [[Projection]] that contains this node is detached from a [[Projector]],
+   * or when the [[Projector]] is stopped. In the latter case, [[afterCreate]] is executed again when the [[Projector]] is resumed.
+   * Use this callback to clean up timers, listeners and third party widgets that were created in [[afterCreate]].
+   * @param element - The element that was removed from the DOM.
+   */
+  afterRemoved?(element: Element): void;
+  /**
+   * When specified, maquette skips updating this node and its descendants when the previous render had the same `memo` values.
+   * The values are compared using `===`, like the inputs of a [[CalculationCache]].
+   * The previous properties and children stay in effect, including event handlers, so all values that are used to render
+   * this subtree should be part of `memo`.
+   */
+  memo?: Object[];
+  /**
+   * CSS style sheets, as strings, that only apply inside the shadow root. Only used on the root [[VNode]] of a projection
+   * that was created using [[dom.attachShadow]] or [[Projector.attachShadow]].
+   * Maquette renders them as `<style>` elements in front of the root and keeps them in sync when they change between renders.
+   */
+  styleSheets?: string[];
   /**
    * When specified, the event handlers will be invoked with 'this' pointing to the value.
    * This is useful when using the prototype/class based implementation of Components.
@@ -251,6 +485,29 @@ export interface VNodeProperties {
    * dynamically.
    */
   classes?: { [index: string]: boolean };
+  /**
+   * A string containing css classes separated by spaces, like `'important urgent'`.
+   * When this value changes, only the css classes that were added or removed are applied to the DOM node.
+   * Css classes from the selector and from [[classes]] are left untouched.
+   */
+  class?: string;
+  /**
+   * An object literal like `{'aria-hidden': true, colspan: 2}` with values that are always applied as attributes using `setAttribute`.
+   * Values are converted to strings, attributes with the value `null` or `undefined` are removed.
+   */
+  attrs?: { [index: string]: any };
+  /**
+   * An object literal like `{items: [1, 2, 3]}` with values that are always assigned as properties of the DOM node,
+   * even when they are strings. Useful for custom elements.
+   */
+  props?: { [index: string]: any };
+  /**
+   * An object literal like `{click: handleClick, scroll: {listener: handleScroll, passive: true}}` with event listeners that
+   * are registered using `addEventListener`. Unlike `onclick` and the like, this also works for events without an `on...` property
+   * and allows the `capture`, `passive` and `once` options to be specified. Listeners may change between renders.
+   * Handlers for custom events can also be specified as properties with an `on-` prefix, like `'on-value-changed': handleChange`.
+   */
+  on?: { [eventName: string]: ((evt?: Event) => boolean | void) | VNodeEventListener };
   /**
    * An object literal like `{height:'100px'}` which allows styles to be changed dynamically. All values must be strings.
    */
@@ -317,17 +574,201 @@ export interface VNodeProperties {
   [index: string]: any;
 };
 
+/**
+ * An event listener with options, to be used in [[VNodeProperties.on]].
+ */
+export interface VNodeEventListener {
+  /**
+   * The function that is invoked when the event fires.
+   */
+  listener: (evt?: Event) => boolean | void;
+  /**
+   * When true, the listener is invoked during the capturing phase.
+   */
+  capture?: boolean;
+  /**
+   * When true, the listener promises not to call `preventDefault()`. Ignored in browsers that do not support this option.
+   */
+  passive?: boolean;
+  /**
+   * When true, the listener is removed after it was invoked once.
+   */
+  once?: boolean;
+}
+
+/**
+ * An event of type `E` whose `currentTarget` is the element of type `T` on which the event handler was placed.
+ */
+export type TargetedEvent<E extends Event, T extends EventTarget> = E & { currentTarget: T };
+
+/**
+ * [[VNodeProperties]] for an element of type `T`. The event handlers and the callbacks receive the element with its specific type.
+ * Used by the [[H]] overloads that have a tagname as selector.
+ * Properties that are not listed, like `role` or `data-*` attributes, are accepted just like in [[VNodeProperties]].
+ */
+export interface ElementProperties<T extends Element> extends VNodeProperties {
+  afterCreate?(element: T, projectionOptions: ProjectionOptions, vnodeSelector: string, properties: VNodeProperties,
+    children: VNode[]): void;
+  afterUpdate?(element: T, projectionOptions: ProjectionOptions, vnodeSelector: string, properties: VNodeProperties,
+    children: VNode[]): void;
+  afterRemoved?(element: T): void;
+  ontouchcancel?(ev?: TargetedEvent<TouchEvent, T>): boolean | void;
+  ontouchend?(ev?: TargetedEvent<TouchEvent, T>): boolean | void;
+  ontouchmove?(ev?: TargetedEvent<TouchEvent, T>): boolean | void;
+  ontouchstart?(ev?: TargetedEvent<TouchEvent, T>): boolean | void;
+  onblur?(ev?: TargetedEvent<FocusEvent, T>): boolean | void;
+  onchange?(ev?: TargetedEvent<Event, T>): boolean | void;
+  onclick?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  ondblclick?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onfocus?(ev?: TargetedEvent<FocusEvent, T>): boolean | void;
+  oninput?(ev?: TargetedEvent<Event, T>): boolean | void;
+  onkeydown?(ev?: TargetedEvent<KeyboardEvent, T>): boolean | void;
+  onkeypress?(ev?: TargetedEvent<KeyboardEvent, T>): boolean | void;
+  onkeyup?(ev?: TargetedEvent<KeyboardEvent, T>): boolean | void;
+  onload?(ev?: TargetedEvent<Event, T>): boolean | void;
+  onmousedown?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmouseenter?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmouseleave?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmousemove?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmouseout?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmouseover?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmouseup?(ev?: TargetedEvent<MouseEvent, T>): boolean | void;
+  onmousewheel?(ev?: TargetedEvent<MouseWheelEvent, T>): boolean | void;
+  onscroll?(ev?: TargetedEvent<UIEvent, T>): boolean | void;
+  onsubmit?(ev?: TargetedEvent<Event, T>): boolean | void;
+}
+
+/**
+ * [[ElementProperties]] for `<a>`.
+ */
+export interface AnchorProperties extends ElementProperties<HTMLAnchorElement> {
+  download?: string;
+  href?: string;
+  hreflang?: string;
+  rel?: string;
+  target?: string;
+  type?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<button>`.
+ */
+export interface ButtonProperties extends ElementProperties<HTMLButtonElement> {
+  autofocus?: boolean;
+  disabled?: boolean;
+  name?: string;
+  type?: string;
+  value?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<form>`.
+ */
+export interface FormProperties extends ElementProperties<HTMLFormElement> {
+  action?: string;
+  autocomplete?: string;
+  enctype?: string;
+  method?: string;
+  name?: string;
+  noValidate?: boolean;
+  target?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<img>`.
+ */
+export interface ImageProperties extends ElementProperties<HTMLImageElement> {
+  alt?: string;
+  height?: number | string;
+  sizes?: string;
+  src?: string;
+  srcset?: string;
+  width?: number | string;
+}
+
+/**
+ * [[ElementProperties]] for `<input>`.
+ */
+export interface InputProperties extends ElementProperties<HTMLInputElement> {
+  accept?: string;
+  autocomplete?: string;
+  autofocus?: boolean;
+  checked?: boolean;
+  disabled?: boolean;
+  indeterminate?: boolean;
+  max?: string;
+  maxLength?: number;
+  min?: string;
+  multiple?: boolean;
+  name?: string;
+  pattern?: string;
+  placeholder?: string;
+  readOnly?: boolean;
+  required?: boolean;
+  step?: string;
+  type?: string;
+  value?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<label>`.
+ */
+export interface LabelProperties extends ElementProperties<HTMLLabelElement> {
+  for?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<option>`.
+ */
+export interface OptionProperties extends ElementProperties<HTMLOptionElement> {
+  disabled?: boolean;
+  label?: string;
+  selected?: boolean;
+  value?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<select>`.
+ */
+export interface SelectProperties extends ElementProperties<HTMLSelectElement> {
+  disabled?: boolean;
+  multiple?: boolean;
+  name?: string;
+  required?: boolean;
+  selectedIndex?: number;
+  value?: string;
+}
+
+/**
+ * [[ElementProperties]] for `<textarea>`.
+ */
+export interface TextAreaProperties extends ElementProperties<HTMLTextAreaElement> {
+  cols?: number;
+  disabled?: boolean;
+  maxLength?: number;
+  name?: string;
+  placeholder?: string;
+  readOnly?: boolean;
+  required?: boolean;
+  rows?: number;
+  value?: string;
+  wrap?: string;
+}
+
 /**
  * Represents a [[VNode]] tree that has been rendered to a real DOM tree.
  */
 export interface Projection {
   /**
    * The DOM node that is used as the root of this [[Projection]].
+   * When the root is a [[fragment]], this is the empty text node that marks the start of the fragment.
    */
   domNode: Element;
   /**
    * Updates the real DOM to match the new virtual DOM tree.
-   * @param updatedVnode The updated virtual DOM tree. Note: The selector for the root of the [[VNode]] tree may not change.
+   * When the selector of the root [[VNode]] changes, the root DOM node is replaced by a new one and [[domNode]] is updated.
+   * The `exitAnimation` of the old root and the `enterAnimation` of the new root are run, just like for other replaced nodes.
+   * @param updatedVnode The updated virtual DOM tree.
    */
   update(updatedVnode: VNode): void;
 }
@@ -335,11 +776,47 @@ export interface Projection {
 const NAMESPACE_W3 = 'http://www.w3.org/';
 const NAMESPACE_SVG = NAMESPACE_W3 + '2000/svg';
 const NAMESPACE_XLINK = NAMESPACE_W3 + '1999/xlink';
+const NAMESPACE_MATHML = NAMESPACE_W3 + '1998/Math/MathML';
+const NAMESPACE_XML = NAMESPACE_W3 + 'XML/1998/namespace';
+const NAMESPACE_XMLNS = NAMESPACE_W3 + '2000/xmlns/';
+
+// The namespaces of attributes that have a prefix, like xlink:title and xml:lang
+const ATTRIBUTE_NAMESPACES: { [prefix: string]: string } = {
+  xlink: NAMESPACE_XLINK,
+  xml: NAMESPACE_XML,
+  xmlns: NAMESPACE_XMLNS
+};
+
+const FRAGMENT_SELECTOR = '<>';
 
 // Utilities
 
 let emptyArray = <VNode[]>[];
 
+let isFragment = (vnode: VNode) => {
+  return vnode.vnodeSelector === FRAGMENT_SELECTOR;
+};
+
+// The last DOM node that was rendered for a VNode, which is not the domNode in case of a fragment
+let getLastDomNode = (vnode: VNode): Node => {
+  if (isFragment(vnode) && vnode.children.length > 0) {
+    return getLastDomNode(vnode.children[vnode.children.length - 1]);
+  }
+  return vnode.domNode;
+};
+
+let unionKeys = (object1: Object, object2: Object) => {
+  let result = object1 ? Object.keys(object1) : [];
+  if (object2) {
+    Object.keys(object2).forEach(key => {
+      if (result.indexOf(key) === -1) {
+        result.push(key);
+      }
+    });
+  }
+  return result;
+};
+
 let extend = <T>(base: T, overrides: any): T => {
   let result = {} as any;
   Object.keys(base).forEach(function(key) {
@@ -353,6 +830,22 @@ let extend = <T>(base: T, overrides: any): T => {
   return result;
 };
 
+let isObject = (value: any) => {
+  return value !== null && (typeof value === 'object' || typeof value === 'function');
+};
+
+// Returns a string that is equal for VNodes that are the same(), or undefined when the key or bind is an object
+let getIdentity = (vnode: VNode): string => {
+  let properties = vnode.properties;
+  if (!properties) {
+    return vnode.vnodeSelector;
+  }
+  if (isObject(properties.key) || isObject(properties.bind)) {
+    return undefined;
+  }
+  return vnode.vnodeSelector + '\u0000' + typeof properties.key + ':' + properties.key + '\u0000' + typeof properties.bind + ':' + properties.bind;
+};
+
 // Hyperscript helper functions
 
 let same = (vnode1: VNode, vnode2: VNode) => {
@@ -414,31 +907,315 @@ const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
 };
 
 let applyDefaultProjectionOptions = (projectorOptions: ProjectionOptions) => {
-  return extend(DEFAULT_PROJECTION_OPTIONS, projectorOptions);
+  let result = extend(DEFAULT_PROJECTION_OPTIONS, projectorOptions);
+  if (result.eventDelegation && !result.delegatedEventNames) {
+    result.delegatedEventNames = [];
+  }
+  if (result.devMode) {
+    result.devPath = [];
+  }
+  return result;
 };
 
-let checkStyleValue = (styleValue: Object) => {
+// Development mode helper functions
+
+// maquette.min.js is built with MAQUETTE_MIN defined as true, which allows the minifier to remove the development mode diagnostics
+declare let MAQUETTE_MIN: boolean;
+
+let describeVNode = (vnode: VNode) => {
+  let key = vnode.properties && vnode.properties.key;
+  return (vnode.vnodeSelector || '#text') + (key !== undefined && !isObject(key) ? '[key=' + key + ']' : '');
+};
+
+// Summarizes what can be checked cheaply to detect VNodes that are modified after they were rendered
+let describeShape = (vnode: VNode) => {
+  return (vnode.children ? vnode.children.length : '-') + ':' + vnode.text;
+};
+
+let enterVNode = (vnode: VNode, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath) {
+    projectionOptions.devPath.push(describeVNode(vnode));
+  }
+};
+
+let leaveVNode = (vnode: VNode, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath) {
+    projectionOptions.devPath.pop();
+    (vnode.domNode as any)['maquette-shape'] = describeShape(vnode);
+  }
+};
+
+let createError = (message: string, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath && projectionOptions.devPath.length > 0) {
+    message += ' (at ' + projectionOptions.devPath.join(' > ') + ')';
+  }
+  return new Error(message);
+};
+
+let warnings: { [message: string]: boolean } = {};
+
+let warn = (message: string, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath) {
+    message = 'maquette: ' + message + ' (at ' + projectionOptions.devPath.join(' > ') + ')';
+    if (!warnings[message]) { // Every render would otherwise repeat the same warnings
+      warnings[message] = true;
+      console.warn(message);
+    }
+  }
+};
+
+let checkRenderedOnce = (vnode: VNode, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath && vnode.domNode) {
+    warn('A VNode was rendered more than once, VNodes may only be rendered once', projectionOptions);
+  }
+};
+
+let checkUnmodified = (vnode: VNode, projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath) {
+    let shape = (vnode.domNode as any)['maquette-shape'];
+    if (shape !== undefined && shape !== describeShape(vnode)) {
+      projectionOptions.devPath.push(describeVNode(vnode));
+      warn('A VNode was modified after it was rendered, create a new VNode instead', projectionOptions);
+      projectionOptions.devPath.pop();
+    }
+  }
+};
+
+// Maquette assumes that keys are unique, siblings with the same key would be confused with each other
+let checkUniqueKeys = (children: VNode[], projectionOptions: ProjectionOptions) => {
+  if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath && children) {
+    let identities: { [identity: string]: boolean } = {};
+    for (let i = 0; i < children.length; i++) {
+      let child = children[i];
+      let identity = child.properties && child.properties.key !== undefined ? getIdentity(child) : undefined;
+      if (identity !== undefined) {
+        if (identities[identity]) {
+          warn('There is more than one ' + describeVNode(child) + ' child, keys must be unique among siblings', projectionOptions);
+        }
+        identities[identity] = true;
+      }
+    }
+  }
+};
+
+let checkStyleValue = (styleValue: Object, projectionOptions: ProjectionOptions) => {
   if (typeof styleValue !== 'string') {
-    throw new Error('Style values must be strings');
+    throw createError('Style values must be strings', projectionOptions);
+  }
+};
+
+let toClassTokens = (value: string) => {
+  return value ? value.split(/\s+/).filter(token => token !== '') : [];
+};
+
+let getTagName = (vnodeSelector: string) => {
+  return vnodeSelector.split(/[.#]/)[0];
+};
+
+// Returns the projectionOptions for an element, <svg> and <math> start a new namespace, other elements use the namespace of their parent
+let getElementNamespaceOptions = (tagName: string, projectionOptions: ProjectionOptions) => {
+  if (tagName === 'svg' && projectionOptions.namespace !== NAMESPACE_SVG) {
+    return extend(projectionOptions, { namespace: NAMESPACE_SVG });
+  }
+  if (tagName === 'math' && projectionOptions.namespace !== NAMESPACE_MATHML) {
+    return extend(projectionOptions, { namespace: NAMESPACE_MATHML });
+  }
+  return projectionOptions;
+};
+
+// Returns the projectionOptions for the children of an element, the children of an svg <foreignObject> are html again
+let getChildNamespaceOptions = (tagName: string, projectionOptions: ProjectionOptions) => {
+  if (tagName === 'foreignObject' && projectionOptions.namespace === NAMESPACE_SVG) {
+    return extend(projectionOptions, { namespace: undefined });
+  }
+  return projectionOptions;
+};
+
+// Used when rendering starts at an existing element, for example when merging with an <svg> element
+let inheritNamespace = (element: Node, projectionOptions: ProjectionOptions) => {
+  let namespace = (element as Element).namespaceURI;
+  if (projectionOptions.namespace === undefined && (namespace === NAMESPACE_SVG || namespace === NAMESPACE_MATHML)) {
+    return extend(projectionOptions, { namespace: namespace });
+  }
+  return projectionOptions;
+};
+
+let inheritParentNamespace = (parentNode: Node, projectionOptions: ProjectionOptions) => {
+  return getChildNamespaceOptions((parentNode as Element).tagName, inheritNamespace(parentNode, projectionOptions));
+};
+
+let getSelectorClasses = (vnodeSelector: string) => {
+  return vnodeSelector.split('#').map(part => part.split('.').slice(1)).reduce((result, classNames) => result.concat(classNames), [] as string[]);
+};
+
+// A css class may only be removed when neither the selector, nor the class property, nor the classes property asks for it
+let isClassRequired = (className: string, vnodeSelector: string, properties: VNodeProperties) => {
+  return getSelectorClasses(vnodeSelector).indexOf(className) >= 0 || toClassTokens(properties.class).indexOf(className) >= 0 ||
+    !!(properties.classes && properties.classes[className]);
+};
+
+let getAttributeNamespace = (attrName: string) => {
+  let colon = attrName.indexOf(':');
+  return colon > 0 ? ATTRIBUTE_NAMESPACES[attrName.substr(0, colon)] : undefined;
+};
+
+let setAttribute = function(domNode: Node, attrName: string, value: string, projectionOptions: ProjectionOptions) {
+  let attributeNamespace = getAttributeNamespace(attrName);
+  if (attributeNamespace) {
+    (domNode as Element).setAttributeNS(attributeNamespace, attrName, value);
+  } else if (projectionOptions.namespace === NAMESPACE_SVG && attrName === 'href') {
+    (domNode as Element).setAttributeNS(NAMESPACE_XLINK, attrName, value);
+  } else {
+    (domNode as Element).setAttribute(attrName, value);
+  }
+  if (projectionOptions.mutationCounts) {
+    projectionOptions.mutationCounts.attributesChanged++;
+  }
+};
+
+let removeAttribute = function(domNode: Node, attrName: string, projectionOptions: ProjectionOptions) {
+  let attributeNamespace = getAttributeNamespace(attrName);
+  if (attributeNamespace) {
+    (domNode as Element).removeAttributeNS(attributeNamespace, attrName.substr(attrName.indexOf(':') + 1));
+  } else if (projectionOptions.namespace === NAMESPACE_SVG && attrName === 'href') {
+    (domNode as Element).removeAttributeNS(NAMESPACE_XLINK, attrName);
+  } else {
+    (domNode as Element).removeAttribute(attrName);
+  }
+  if (projectionOptions.mutationCounts) {
+    projectionOptions.mutationCounts.attributesChanged++;
+  }
+};
+
+let setEventHandler = function(domNode: Node, propName: string, properties: VNodeProperties, projectionOptions: ProjectionOptions) {
+  if (projectionOptions.eventDelegation) {
+    // The root of the projection will handle this event, see addDelegatedListeners
+    let eventName = propName.substr(2);
+    if (projectionOptions.delegatedEventNames.indexOf(eventName) === -1) {
+      projectionOptions.delegatedEventNames.push(eventName);
+    }
+    return;
+  }
+  // The event handler is looked up in the latest properties when the event fires, so event handlers may change between renders
+  let eventHandler: Function = function() {
+    let currentHandler = (domNode as any)['maquette-properties'][propName];
+    if (typeof currentHandler === 'function') {
+      return currentHandler.apply(this, arguments);
+    }
+  };
+  if (projectionOptions.eventHandlerInterceptor) {
+    eventHandler = projectionOptions.eventHandlerInterceptor(propName, eventHandler, domNode, properties); // intercept eventhandlers
+  }
+  if (propName === 'oninput') {
+    // record the evt.target.value, because IE and Edge sometimes do a requestAnimationFrame between changing value and running oninput
+    let oninputHandler = eventHandler;
+    eventHandler = function(evt: Event) {
+      (evt.target as any)['oninput-value'] = (evt.target as HTMLInputElement).value; // may be HTMLTextAreaElement as well
+      oninputHandler.apply(this, [evt]);
+    };
+  }
+  (domNode as any)[propName] = eventHandler;
+};
+
+// Handlers like on-value-changed are registered using addEventListener, because custom events have no on... property
+let isCustomEventHandler = (propName: string) => propName.lastIndexOf('on-', 0) === 0;
+
+let setCustomEventHandler = function(domNode: Node, propName: string, properties: VNodeProperties, projectionOptions: ProjectionOptions) {
+  // Like setEventHandler, the handler is looked up in the latest properties when the event fires
+  let eventHandler: Function = function() {
+    let currentHandler = (domNode as any)['maquette-properties'][propName];
+    if (typeof currentHandler === 'function') {
+      return currentHandler.apply(this, arguments);
+    }
+  };
+  if (projectionOptions.eventHandlerInterceptor) {
+    eventHandler = projectionOptions.eventHandlerInterceptor(propName, eventHandler, domNode, properties); // intercept eventhandlers
+  }
+  domNode.addEventListener(propName.substr(3), eventHandler as EventListener);
+  let registrations = (domNode as any)['maquette-custom-events'] = (domNode as any)['maquette-custom-events'] || {};
+  registrations[propName] = eventHandler;
+};
+
+let removeCustomEventHandler = function(domNode: Node, propName: string) {
+  domNode.removeEventListener(propName.substr(3), (domNode as any)['maquette-custom-events'][propName]);
+  delete (domNode as any)['maquette-custom-events'][propName];
+};
+
+// In customElementProperties mode, strings are assigned as properties to custom elements, unless the name looks like an attribute
+let isForcedProperty = (domNode: Node, propName: string, projectionOptions: ProjectionOptions) => {
+  return !!projectionOptions.customElementProperties && (domNode as Element).tagName.indexOf('-') > 0 &&
+    propName.indexOf('-') === -1 && propName.indexOf(':') === -1;
+};
+
+let eventListenerOptionsSupported: boolean;
+
+let supportsEventListenerOptions = function(domNode: Node) {
+  if (eventListenerOptionsSupported === undefined) {
+    eventListenerOptionsSupported = false;
+    let noop = () => undefined as void;
+    let options = Object.defineProperty({}, 'once', {
+      get: () => {
+        eventListenerOptionsSupported = true; // Older browsers never read the options object
+        return false;
+      }
+    });
+    domNode.addEventListener('maquette', noop, options as any);
+    domNode.removeEventListener('maquette', noop, options as any);
+  }
+  return eventListenerOptionsSupported;
+};
+
+let toEventListener = (value: ((evt?: Event) => boolean | void) | VNodeEventListener): VNodeEventListener => {
+  return (typeof value === 'function') ? { listener: value as (evt?: Event) => boolean | void } : value as VNodeEventListener;
+};
+
+let addListener = function(domNode: Node, eventName: string, eventListener: VNodeEventListener, properties: VNodeProperties,
+                           projectionOptions: ProjectionOptions) {
+  // Like setEventHandler, the listener is looked up in the latest properties when the event fires
+  let listener: Function = function() {
+    let currentListeners = (domNode as any)['maquette-properties'].on;
+    let currentListener = currentListeners && currentListeners[eventName];
+    if (currentListener) {
+      return toEventListener(currentListener).listener.apply(this, arguments);
+    }
+  };
+  if (projectionOptions.eventHandlerInterceptor) {
+    listener = projectionOptions.eventHandlerInterceptor('on' + eventName, listener, domNode, properties); // intercept eventhandlers
   }
+  let capture = !!eventListener.capture;
+  let optionsSupported = supportsEventListenerOptions(domNode);
+  let registeredListener = function() {
+    if (eventListener.once && !optionsSupported) {
+      domNode.removeEventListener(eventName, registeredListener, capture);
+    }
+    return listener.apply(this, arguments);
+  };
+  let options = { capture: capture, passive: !!eventListener.passive, once: !!eventListener.once };
+  domNode.addEventListener(eventName, registeredListener, optionsSupported ? options as any : capture);
+  let registrations = (domNode as any)['maquette-listeners'] = (domNode as any)['maquette-listeners'] || {};
+  registrations[eventName] = { listener: registeredListener, options: options };
+};
+
+let removeListener = function(domNode: Node, eventName: string) {
+  let registration = (domNode as any)['maquette-listeners'][eventName];
+  domNode.removeEventListener(eventName, registration.listener, registration.options.capture);
+  delete (domNode as any)['maquette-listeners'][eventName];
 };
 
 let setProperties = function(domNode: Node, properties: VNodeProperties, projectionOptions: ProjectionOptions) {
   if (!properties) {
     return;
   }
-  let eventHandlerInterceptor = projectionOptions.eventHandlerInterceptor;
+  (domNode as any)['maquette-properties'] = properties;
   let propNames = Object.keys(properties);
   let propCount = propNames.length;
   for (let i = 0; i < propCount; i++) {
     let propName = propNames[i];
-    /* tslint:disable:no-var-keyword: edge case */
-    var propValue = properties[propName];
-    /* tslint:enable:no-var-keyword */
+    let propValue = properties[propName];
     if (propName === 'className') {
-      throw new Error('Property "className" is not supported, use "class".');
+      throw createError('Property "className" is not supported, use "class".', projectionOptions);
     } else if (propName === 'class') {
-      (propValue as string).split(/\s+/).forEach(token => (domNode as Element).classList.add(token));
+      toClassTokens(propValue).forEach(token => (domNode as Element).classList.add(token));
     } else if (propName === 'classes') {
       // object with string keys and boolean values
       let classNames = Object.keys(propValue);
@@ -457,39 +1234,49 @@ let setProperties = function(domNode: Node, properties: VNodeProperties, project
         let styleName = styleNames[j];
         let styleValue = propValue[styleName];
         if (styleValue) {
-          checkStyleValue(styleValue);
+          checkStyleValue(styleValue, projectionOptions);
           projectionOptions.styleApplyer(<HTMLElement>domNode, styleName, styleValue);
         }
       }
-    } else if (propName === 'key') {
+    } else if (propName === 'key' || propName === 'memo' || propName === 'styleSheets') {
       continue;
     } else if (propValue === null || propValue === undefined) {
       continue;
+    } else if (propName === 'attrs') {
+      // object with attribute names as keys, values are always applied as attributes
+      let attrNames = Object.keys(propValue);
+      for (let j = 0; j < attrNames.length; j++) {
+        let attrValue = propValue[attrNames[j]];
+        if (attrValue !== null && attrValue !== undefined) {
+          setAttribute(domNode, attrNames[j], '' + attrValue, projectionOptions);
+        }
+      }
+    } else if (propName === 'on') {
+      // object with event names as keys and listeners as values
+      let eventNames = Object.keys(propValue);
+      for (let j = 0; j < eventNames.length; j++) {
+        if (propValue[eventNames[j]]) {
+          addListener(domNode, eventNames[j], toEventListener(propValue[eventNames[j]]), properties, projectionOptions);
+        }
+      }
+    } else if (propName === 'props') {
+      // object with property names as keys, values are always assigned as properties of the DOM node
+      let names = Object.keys(propValue);
+      for (let j = 0; j < names.length; j++) {
+        if (propValue[names[j]] !== undefined) {
+          (domNode as any)[names[j]] = propValue[names[j]];
+        }
+      }
     } else {
       let type = typeof propValue;
       if (type === 'function') {
-        if (propName.lastIndexOf('on', 0) === 0) { // lastIndexOf(,0)===0 -> startsWith
-          if (eventHandlerInterceptor) {
-            propValue = eventHandlerInterceptor(propName, propValue, domNode, properties); // intercept eventhandlers
-          }
-          if (propName === 'oninput') {
-            (function() {
-              // record the evt.target.value, because IE and Edge sometimes do a requestAnimationFrame between changing value and running oninput
-              let oldPropValue = propValue;
-              propValue = function(evt: Event) {
-                (evt.target as any)['oninput-value'] = (evt.target as HTMLInputElement).value; // may be HTMLTextAreaElement as well
-                oldPropValue.apply(this, [evt]);
-              };
-            } ());
-          }
-          (domNode as any)[propName] = propValue;
-        }
-      } else if (type === 'string' && propName !== 'value' && propName !== 'innerHTML') {
-        if (projectionOptions.namespace === NAMESPACE_SVG && propName === 'href') {
-          (domNode as Element).setAttributeNS(NAMESPACE_XLINK, propName, propValue);
-        } else {
-          (domNode as Element).setAttribute(propName, propValue);
+        if (isCustomEventHandler(propName)) {
+          setCustomEventHandler(domNode, propName, properties, projectionOptions);
+        } else if (propName.lastIndexOf('on', 0) === 0) { // lastIndexOf(,0)===0 -> startsWith
+          setEventHandler(domNode, propName, properties, projectionOptions);
         }
+      } else if (type === 'string' && propName !== 'value' && propName !== 'innerHTML' && !isForcedProperty(domNode, propName, projectionOptions)) {
+        setAttribute(domNode, propName, propValue, projectionOptions);
       } else {
         (domNode as any)[propName] = propValue;
       }
@@ -497,58 +1284,138 @@ let setProperties = function(domNode: Node, properties: VNodeProperties, project
   }
 };
 
-let updateProperties = function(domNode: Node, previousProperties: VNodeProperties, properties: VNodeProperties, projectionOptions: ProjectionOptions) {
+let updateProperties = function(domNode: Node, vnodeSelector: string, previousProperties: VNodeProperties, properties: VNodeProperties,
+                                projectionOptions: ProjectionOptions) {
   if (!properties) {
     return;
   }
+  (domNode as any)['maquette-properties'] = properties;
   let propertiesUpdated = false;
-  let propNames = Object.keys(properties);
+  // Properties that are missing from the new properties object come last, these are removed from the DOM node
+  let propNames = unionKeys(properties, previousProperties);
+  let presentPropCount = Object.keys(properties).length;
   let propCount = propNames.length;
   for (let i = 0; i < propCount; i++) {
     let propName = propNames[i];
-    // assuming that properties will be nullified instead of missing is by design
     let propValue = properties[propName];
     let previousValue = previousProperties[propName];
-    if (propName === 'class') {
+    if (propName === 'memo' || propName === 'styleSheets') {
+      continue;
+    } else if ((i >= presentPropCount || propValue === null || propValue === undefined) &&
+      (typeof previousValue === 'string' || typeof previousValue === 'number') &&
+      propName !== 'value' && propName !== 'innerHTML' && propName !== 'class' && !isForcedProperty(domNode, propName, projectionOptions)) {
+      // A missing key and a key with the value null or undefined both remove the attribute.
+      // Numeric properties like tabIndex and maxLength are reset to their default this way, assigning undefined would make them 0.
+      removeAttribute(domNode, propName, projectionOptions);
+      propertiesUpdated = true;
+    } else if (propName === 'class') {
       if (previousValue !== propValue) {
-        throw new Error('"class" property may not be updated. Use the "classes" property for conditional css classes.');
+        let classList = (domNode as Element).classList;
+        let tokens = toClassTokens(propValue);
+        let previousTokens = toClassTokens(previousValue);
+        previousTokens.forEach(token => {
+          if (tokens.indexOf(token) === -1 && !isClassRequired(token, vnodeSelector, properties)) {
+            classList.remove(token);
+          }
+        });
+        tokens.forEach(token => {
+          if (previousTokens.indexOf(token) === -1) {
+            classList.add(token);
+          }
+        });
+        propertiesUpdated = true;
       }
     } else if (propName === 'classes') {
       let classList = (domNode as Element).classList;
-      let classNames = Object.keys(propValue);
+      let classNames = unionKeys(propValue, previousValue);
       let classNameCount = classNames.length;
       for (let j = 0; j < classNameCount; j++) {
         let className = classNames[j];
-        let on = !!propValue[className];
-        let previousOn = !!previousValue[className];
+        let on = !!(propValue && propValue[className]);
+        let previousOn = !!(previousValue && previousValue[className]);
         if (on === previousOn) {
           continue;
         }
         propertiesUpdated = true;
         if (on) {
           classList.add(className);
-        } else {
+        } else if (!isClassRequired(className, vnodeSelector, properties)) {
           classList.remove(className);
         }
       }
     } else if (propName === 'styles') {
-      let styleNames = Object.keys(propValue);
+      let styleNames = unionKeys(propValue, previousValue);
       let styleCount = styleNames.length;
       for (let j = 0; j < styleCount; j++) {
         let styleName = styleNames[j];
-        let newStyleValue = propValue[styleName];
-        let oldStyleValue = previousValue[styleName];
+        let newStyleValue = propValue ? propValue[styleName] : undefined;
+        let oldStyleValue = previousValue ? previousValue[styleName] : undefined;
         if (newStyleValue === oldStyleValue) {
           continue;
         }
         propertiesUpdated = true;
         if (newStyleValue) {
-          checkStyleValue(newStyleValue);
+          checkStyleValue(newStyleValue, projectionOptions);
           projectionOptions.styleApplyer(domNode as HTMLElement, styleName, newStyleValue);
         } else {
           projectionOptions.styleApplyer(domNode as HTMLElement, styleName, '');
         }
       }
+    } else if (propName === 'attrs') {
+      let attrNames = unionKeys(propValue, previousValue);
+      for (let j = 0; j < attrNames.length; j++) {
+        let attrName = attrNames[j];
+        let attrValue = propValue ? propValue[attrName] : undefined;
+        if (attrValue === (previousValue ? previousValue[attrName] : undefined)) {
+          continue;
+        }
+        propertiesUpdated = true;
+        if (attrValue === null || attrValue === undefined) {
+          removeAttribute(domNode, attrName, projectionOptions);
+        } else {
+          setAttribute(domNode, attrName, '' + attrValue, projectionOptions);
+        }
+      }
+    } else if (propName === 'on') {
+      let registrations = (domNode as any)['maquette-listeners'] || {};
+      let eventNames = unionKeys(propValue, registrations);
+      for (let j = 0; j < eventNames.length; j++) {
+        let eventName = eventNames[j];
+        let eventListener = (propValue && propValue[eventName]) ? toEventListener(propValue[eventName]) : undefined;
+        let registration = registrations[eventName];
+        if (registration) {
+          let options = registration.options;
+          if (eventListener && options.capture === !!eventListener.capture && options.passive === !!eventListener.passive &&
+            options.once === !!eventListener.once) {
+            continue; // The registered listener will invoke the latest listener
+          }
+          removeListener(domNode, eventName);
+        }
+        if (eventListener) {
+          addListener(domNode, eventName, eventListener, properties, projectionOptions);
+        }
+      }
+    } else if (propName === 'props') {
+      let names = unionKeys(propValue, previousValue);
+      for (let j = 0; j < names.length; j++) {
+        let name = names[j];
+        let value = propValue ? propValue[name] : undefined;
+        if (value === (previousValue ? previousValue[name] : undefined)) {
+          continue;
+        }
+        propertiesUpdated = true;
+        if ((domNode as any)[name] !== value) { // Comparison is here for side-effects in Edge with scrollLeft and scrollTop
+          (domNode as any)[name] = value;
+        }
+      }
+    } else if (isCustomEventHandler(propName) && (typeof propValue === 'function' || typeof previousValue === 'function')) {
+      if (typeof previousValue !== 'function') {
+        setCustomEventHandler(domNode, propName, properties, projectionOptions);
+      } else if (typeof propValue !== 'function') {
+        removeCustomEventHandler(domNode, propName);
+      } // else the registered handler will invoke the latest handler
+    } else if (i >= presentPropCount && typeof previousValue === 'function' && propName.lastIndexOf('on', 0) !== 0) {
+      continue; // Nothing to remove for callbacks like afterUpdate
     } else {
       if (!propValue && typeof previousValue === 'string') {
         propValue = '';
@@ -564,15 +1431,13 @@ let updateProperties = function(domNode: Node, previousProperties: VNodeProperti
       } else if (propValue !== previousValue) {
         let type = typeof propValue;
         if (type === 'function') {
-          throw new Error('Functions may not be updated on subsequent renders (property: ' + propName +
-            '). Hint: declare event handler functions outside the render() function.');
-        }
-        if (type === 'string' && propName !== 'innerHTML') {
-          if (projectionOptions.namespace === NAMESPACE_SVG && propName === 'href') {
-            (domNode as Element).setAttributeNS(NAMESPACE_XLINK, propName, propValue);
-          } else {
-            (domNode as Element).setAttribute(propName, propValue);
+          if (propName.lastIndexOf('on', 0) === 0 && typeof previousValue !== 'function') {
+            setEventHandler(domNode, propName, properties, projectionOptions);
           }
+          continue; // Other functions, like afterUpdate, are always invoked using the latest properties
+        }
+        if (type === 'string' && propName !== 'innerHTML' && !isForcedProperty(domNode, propName, projectionOptions)) {
+          setAttribute(domNode, propName, propValue, projectionOptions);
         } else {
           if ((domNode as any)[propName] !== propValue) { // Comparison is here for side-effects in Edge with scrollLeft and scrollTop
             (domNode as any)[propName] = propValue;
@@ -585,18 +1450,137 @@ let updateProperties = function(domNode: Node, previousProperties: VNodeProperti
   return propertiesUpdated;
 };
 
-let findIndexOfChild = function(children: VNode[], sameAs: VNode, start: number) {
+/**
+ * Makes it possible to find children by their identity without scanning all children.
+ */
+interface ChildIndex {
+  identities: { [identity: string]: number[] };
+  // Children with an object as key or bind, these can only be found by comparing them one by one
+  others: number[];
+}
+
+let indexChildren = function(children: VNode[]): ChildIndex {
+  let result: ChildIndex = { identities: Object.create(null), others: [] };
+  for (let i = 0; i < children.length; i++) {
+    let child = children[i];
+    if (child.vnodeSelector === '') {
+      continue; // Never scan for text-nodes
+    }
+    let identity = getIdentity(child);
+    if (identity === undefined) {
+      result.others.push(i);
+    } else {
+      (result.identities[identity] = result.identities[identity] || []).push(i);
+    }
+  }
+  return result;
+};
+
+let getCandidates = function(index: ChildIndex, sameAs: VNode) {
+  let identity = getIdentity(sameAs);
+  return (identity === undefined) ? index.others : (index.identities[identity] || []);
+};
+
+let findIndexOfChild = function(children: VNode[], index: ChildIndex, sameAs: VNode, matched: boolean[]) {
   if (sameAs.vnodeSelector !== '') {
-    // Never scan for text-nodes
-    for (let i = start; i < children.length; i++) {
-      if (same(children[i], sameAs)) {
-        return i;
+    let candidates = getCandidates(index, sameAs);
+    for (let i = 0; i < candidates.length; i++) {
+      if (!matched[candidates[i]] && same(children[candidates[i]], sameAs)) {
+        return candidates[i];
       }
     }
   }
   return -1;
 };
 
+// Marks the children that can stay where they are, using the longest increasing subsequence of the indexes of the old children
+let findStableChildren = function(sources: number[]): boolean[] {
+  let tails = [] as number[]; // tails[n] is the last child of the best increasing subsequence of length n + 1 found so far
+  let predecessors = [] as number[];
+  for (let i = 0; i < sources.length; i++) {
+    if (sources[i] < 0) {
+      continue;
+    }
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      let middle = Math.floor((low + high) / 2);
+      if (sources[tails[middle]] < sources[i]) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    predecessors[i] = (low > 0) ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+  let stable = [] as boolean[];
+  for (let i = (tails.length > 0) ? tails[tails.length - 1] : -1; i >= 0; i = predecessors[i]) {
+    stable[i] = true;
+  }
+  return stable;
+};
+
+let isMemoized = (previous: VNode, vnode: VNode) => {
+  let inputs = vnode.properties && vnode.properties.memo;
+  let previousInputs = previous.properties && previous.properties.memo;
+  if (!inputs || !previousInputs || inputs.length !== previousInputs.length) {
+    return false;
+  }
+  for (let i = 0; i < inputs.length; i++) {
+    if (inputs[i] !== previousInputs[i]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Component helper functions
+
+interface ComponentState {
+  vnode: VNode; // The VNode that was last returned by renderComponent
+  invalidated: boolean;
+  projectionOptions: ProjectionOptions; // Where the component was rendered, undefined when it is not in the DOM
+}
+
+let getComponentState = (instance: Component): ComponentState => {
+  let state = (instance as any)['maquette-component'] as ComponentState;
+  if (!state) {
+    state = (instance as any)['maquette-component'] = { vnode: undefined, invalidated: true, projectionOptions: undefined };
+  }
+  return state;
+};
+
+// Returns the state of the component when vnode is the latest VNode that was rendered by that component
+let findComponentState = (vnode: VNode): ComponentState => {
+  let bind = vnode.properties && vnode.properties.bind;
+  let state = bind && (bind as any)['maquette-component'] as ComponentState;
+  return state && state.vnode === vnode ? state : undefined;
+};
+
+let renderInstance = (instance: Component, state: ComponentState) => {
+  let vnode = instance.renderMaquette();
+  // The bind property identifies the component among its siblings and is used to find its state
+  state.vnode = extend(vnode, { properties: extend(vnode.properties || {}, { bind: instance }) });
+  state.invalidated = false;
+  return state.vnode;
+};
+
+// Remembers where a component is rendered, so it can be rendered again by itself after it is invalidated
+let trackComponent = (vnode: VNode, projectionOptions: ProjectionOptions) => {
+  let state = findComponentState(vnode);
+  if (state) {
+    state.projectionOptions = projectionOptions;
+  }
+};
+
+// A VNode may only be rendered once, so a component renders a new VNode when the previous one is still in use by another DOM node
+let replaceRenderedComponent = (children: VNode[], index: number) => {
+  let vnode = children[index];
+  let state = vnode.domNode && findComponentState(vnode);
+  return state ? children[index] = renderInstance(vnode.properties.bind as Component, state) : vnode;
+};
+
 let nodeAdded = function(vNode: VNode, transitions: TransitionStrategy) {
   if (vNode.properties) {
     let enterAnimation = vNode.properties.enterAnimation;
@@ -610,8 +1594,45 @@ let nodeAdded = function(vNode: VNode, transitions: TransitionStrategy) {
   }
 };
 
-let nodeToRemove = function(vNode: VNode, transitions: TransitionStrategy) {
+let callAfterRemoved = function(vNode: VNode) {
+  if (vNode.children) {
+    vNode.children.forEach(callAfterRemoved);
+  }
+  if (vNode.properties && vNode.properties.afterRemoved) {
+    vNode.properties.afterRemoved.apply(vNode.properties.bind || vNode.properties, [<Element>vNode.domNode]);
+  }
+  let componentState = findComponentState(vNode);
+  if (componentState) {
+    // A VNode may only be rendered once, so the component needs to render a new one when it is added again
+    componentState.invalidated = true;
+    componentState.projectionOptions = undefined;
+  }
+};
+
+// Invokes the afterCreate callbacks again for a tree whose DOM was kept after callAfterRemoved, see Projector.resume
+let callAfterCreate = function(vNode: VNode, projectionOptions: ProjectionOptions) {
+  let tagName = getTagName(vNode.vnodeSelector);
+  projectionOptions = getElementNamespaceOptions(tagName, projectionOptions);
+  if (vNode.children) {
+    let childProjectionOptions = getChildNamespaceOptions(tagName, projectionOptions);
+    vNode.children.forEach(child => callAfterCreate(child, childProjectionOptions));
+  }
+  if (vNode.properties && vNode.properties.afterCreate) {
+    vNode.properties.afterCreate.apply(vNode.properties.bind || vNode.properties, [vNode.domNode as Element, projectionOptions, vNode.vnodeSelector,
+      vNode.properties, vNode.children]);
+  }
+};
+
+let nodeToRemove = function(vNode: VNode, projectionOptions: ProjectionOptions) {
   let domNode = vNode.domNode;
+  if (isFragment(vNode)) {
+    domNode.parentNode.removeChild(domNode);
+    vNode.children.forEach(child => nodeToRemove(child, projectionOptions));
+    return;
+  }
+  if (projectionOptions.mutationCounts) {
+    projectionOptions.mutationCounts.nodesRemoved++;
+  }
   if (vNode.properties) {
     let exitAnimation = vNode.properties.exitAnimation;
     if (exitAnimation) {
@@ -619,13 +1640,14 @@ let nodeToRemove = function(vNode: VNode, transitions: TransitionStrategy) {
       let removeDomNode = function() {
         if (domNode.parentNode) {
           domNode.parentNode.removeChild(domNode);
+          callAfterRemoved(vNode);
         }
       };
       if (typeof exitAnimation === 'function') {
         exitAnimation(domNode as Element, removeDomNode, vNode.properties);
         return;
       } else {
-        transitions.exit(vNode.domNode as Element, vNode.properties, exitAnimation as string, removeDomNode);
+        projectionOptions.transitions.exit(vNode.domNode as Element, vNode.properties, exitAnimation as string, removeDomNode);
         return;
       }
     }
@@ -633,9 +1655,25 @@ let nodeToRemove = function(vNode: VNode, transitions: TransitionStrategy) {
   if (domNode.parentNode) {
     domNode.parentNode.removeChild(domNode);
   }
+  callAfterRemoved(vNode);
+};
+
+// Unkeyed siblings are matched by their order, so adding or removing one may update the DOM of the wrong sibling
+let checkUnkeyedSiblings = function(childNodes: VNode[], indexToCheck: number, operation: string, projectionOptions: ProjectionOptions) {
+  let childNode = childNodes[indexToCheck];
+  for (let i = 0; i < childNodes.length; i++) {
+    let node = childNodes[i];
+    let key = node.properties ? (node.properties.key === undefined ? node.properties.bind : node.properties.key) : undefined;
+    if (i !== indexToCheck && node.vnodeSelector === childNode.vnodeSelector && !key) {
+      let message = 'A ' + childNode.vnodeSelector + ' child was ' + operation + ' without a key while it has siblings with the same selector, ';
+      warn(message + 'add unique key properties to lists that change', projectionOptions);
+      return;
+    }
+  }
 };
 
-let checkDistinguishable = function(childNodes: VNode[], indexToCheck: number, parentVNode: VNode, operation: string) {
+let checkDistinguishable = function(childNodes: VNode[], index: ChildIndex, indexToCheck: number, parentVNode: VNode, operation: string,
+                                    projectionOptions: ProjectionOptions) {
   let childNode = childNodes[indexToCheck];
   if (childNode.vnodeSelector === '') {
     return; // Text nodes need not be distinguishable
@@ -643,70 +1681,128 @@ let checkDistinguishable = function(childNodes: VNode[], indexToCheck: number, p
   let properties = childNode.properties;
   let key = properties ? (properties.key === undefined ? properties.bind : properties.key) : undefined;
   if (!key) { // A key is just assumed to be unique
-    for (let i = 0; i < childNodes.length; i++) {
-      if (i !== indexToCheck) {
-        let node = childNodes[i];
+    if (typeof MAQUETTE_MIN === 'undefined' && projectionOptions.devPath) {
+      checkUnkeyedSiblings(childNodes, indexToCheck, operation, projectionOptions);
+    }
+    let candidates = getCandidates(index, childNode);
+    for (let i = 0; i < candidates.length; i++) {
+      if (candidates[i] !== indexToCheck) {
+        let node = childNodes[candidates[i]];
         if (same(node, childNode)) {
+          let message = parentVNode.vnodeSelector + ' had a ' + childNode.vnodeSelector + ' child ';
           if (operation === 'added') {
-            throw new Error(parentVNode.vnodeSelector + ' had a ' + childNode.vnodeSelector + ' child ' +
-              'added, but there is now more than one. You must add unique key properties to make them distinguishable.');
+            message += 'added, but there is now more than one. You must add unique key properties to make them distinguishable.';
           } else {
-            throw new Error(parentVNode.vnodeSelector + ' had a ' + childNode.vnodeSelector + ' child ' +
-              'removed, but there were more than one. You must add unique key properties to make them distinguishable.');
+            message += 'removed, but there were more than one. You must add unique key properties to make them distinguishable.';
           }
+          throw createError(message, projectionOptions);
         }
       }
     }
   }
 };
 
+let moveDomNodes = function(parentNode: Node, vnode: VNode, insertBefore: Node) {
+  parentNode.insertBefore(vnode.domNode, insertBefore || null);
+  if (isFragment(vnode)) {
+    vnode.children.forEach(child => moveDomNodes(parentNode, child, insertBefore));
+  }
+};
+
 let createDom: (vnode: VNode, parentNode: Node, insertBefore: Node, projectionOptions: ProjectionOptions) => void;
 let updateDom: (previous: VNode, vnode: VNode, projectionOptions: ProjectionOptions) => boolean;
 
-let updateChildren = function(vnode: VNode, domNode: Node, oldChildren: VNode[], newChildren: VNode[], projectionOptions: ProjectionOptions) {
+let updateChildren = function(vnode: VNode, domNode: Node, oldChildren: VNode[], newChildren: VNode[], projectionOptions: ProjectionOptions,
+                              endNode?: Node) {
   if (oldChildren === newChildren) {
     return false;
   }
   oldChildren = oldChildren || emptyArray;
   newChildren = newChildren || emptyArray;
+  checkUniqueKeys(newChildren, projectionOptions);
   let oldChildrenLength = oldChildren.length;
   let newChildrenLength = newChildren.length;
   let transitions = projectionOptions.transitions;
+  let oldChildIndex: ChildIndex; // Only needed when a child is not found at its old position
+  let newChildIndex: ChildIndex; // Only needed when children are added
 
+  // Match every new child with an old child, sources contains the index of the matching old child or -1
+  let sources = [] as number[];
+  let matched = [] as boolean[];
   let oldIndex = 0;
-  let newIndex = 0;
+  let newIndex: number;
   let i: number;
   let textUpdated = false;
-  while (newIndex < newChildrenLength) {
-    let oldChild = (oldIndex < oldChildrenLength) ? oldChildren[oldIndex] : undefined;
-    let newChild = newChildren[newIndex];
-    if (oldChild !== undefined && same(oldChild, newChild)) {
-      textUpdated = updateDom(oldChild, newChild, projectionOptions) || textUpdated;
+  let inPlace = oldChildrenLength === newChildrenLength; // Stays true when every child is matched at its old position
+  for (newIndex = 0; newIndex < newChildrenLength; newIndex++) {
+    while (matched[oldIndex]) {
       oldIndex++;
+    }
+    let newChild = newChildren[newIndex];
+    let source: number;
+    if (oldIndex < oldChildrenLength && same(oldChildren[oldIndex], newChild)) {
+      source = oldIndex++;
     } else {
-      let findOldIndex = findIndexOfChild(oldChildren, newChild, oldIndex + 1);
-      if (findOldIndex >= 0) {
-        // Remove preceding missing children
-        for (i = oldIndex; i < findOldIndex; i++) {
-          nodeToRemove(oldChildren[i], transitions);
-          checkDistinguishable(oldChildren, i, vnode, 'removed');
-        }
-        textUpdated = updateDom(oldChildren[findOldIndex], newChild, projectionOptions) || textUpdated;
-        oldIndex = findOldIndex + 1;
-      } else {
-        // New child
-        createDom(newChild, domNode, (oldIndex < oldChildrenLength) ? oldChildren[oldIndex].domNode : undefined, projectionOptions);
-        nodeAdded(newChild, transitions);
-        checkDistinguishable(newChildren, newIndex, vnode, 'added');
+      oldChildIndex = oldChildIndex || indexChildren(oldChildren);
+      source = findIndexOfChild(oldChildren, oldChildIndex, newChild, matched);
+      if (source > oldIndex) {
+        oldIndex = source + 1;
       }
     }
-    newIndex++;
+    if (source >= 0) {
+      matched[source] = true;
+    }
+    inPlace = inPlace && source === newIndex;
+    sources.push(source);
+  }
+
+  if (inPlace) {
+    // Nothing was added, removed or moved
+    for (newIndex = 0; newIndex < newChildrenLength; newIndex++) {
+      textUpdated = updateDom(oldChildren[newIndex], newChildren[newIndex], projectionOptions) || textUpdated;
+    }
+    return textUpdated;
+  }
+
+  // Remove the old children that are missing
+  for (i = 0; i < oldChildrenLength; i++) {
+    if (!matched[i]) {
+      nodeToRemove(oldChildren[i], projectionOptions);
+      oldChildIndex = oldChildIndex || indexChildren(oldChildren);
+      checkDistinguishable(oldChildren, oldChildIndex, i, vnode, 'removed', projectionOptions);
+    }
+  }
+
+  // Only the children that are not part of the longest sequence which is still in order need to be moved
+  let stable = findStableChildren(sources);
+  let insertBefore = [] as Node[];
+  let nextStableDomNode = endNode; // Only set for fragments, which do not necessarily end at the end of the parent
+  for (newIndex = newChildrenLength - 1; newIndex >= 0; newIndex--) {
+    insertBefore[newIndex] = nextStableDomNode;
+    if (stable[newIndex]) {
+      nextStableDomNode = oldChildren[sources[newIndex]].domNode;
+    }
   }
-  if (oldChildrenLength > oldIndex) {
-    // Remove child fragments
-    for (i = oldIndex; i < oldChildrenLength; i++) {
-      nodeToRemove(oldChildren[i], transitions);
-      checkDistinguishable(oldChildren, i, vnode, 'removed');
+
+  for (newIndex = 0; newIndex < newChildrenLength; newIndex++) {
+    let newChild = newChildren[newIndex];
+    let source = sources[newIndex];
+    if (source >= 0) {
+      if (!stable[newIndex]) {
+        // Moving keeps the state of the DOM node, like focus, scroll position and video playback
+        moveDomNodes(domNode, oldChildren[source], insertBefore[newIndex]);
+        if (projectionOptions.mutationCounts) {
+          projectionOptions.mutationCounts.nodesMoved++;
+        }
+      }
+      textUpdated = updateDom(oldChildren[source], newChild, projectionOptions) || textUpdated;
+    } else {
+      // New child
+      newChild = replaceRenderedComponent(newChildren, newIndex);
+      createDom(newChild, domNode, insertBefore[newIndex], projectionOptions);
+      nodeAdded(newChild, transitions);
+      newChildIndex = newChildIndex || indexChildren(newChildren);
+      checkDistinguishable(newChildren, newChildIndex, newIndex, vnode, 'added', projectionOptions);
     }
   }
   return textUpdated;
@@ -717,31 +1813,50 @@ let addChildren = function(domNode: Node, children: VNode[], projectionOptions:
     return;
   }
   for (let i = 0; i < children.length; i++) {
-    createDom(children[i], domNode, undefined, projectionOptions);
+    createDom(replaceRenderedComponent(children, i), domNode, undefined, projectionOptions);
   }
 };
 
-let initPropertiesAndChildren = function(domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) {
-  addChildren(domNode, vnode.children, projectionOptions); // children before properties, needed for value property of <select>.
-  if (vnode.text) {
-    domNode.textContent = vnode.text;
-  }
+let initProperties = function(domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) {
   setProperties(domNode, vnode.properties, projectionOptions);
   if (vnode.properties && vnode.properties.afterCreate) {
     vnode.properties.afterCreate.apply(vnode.properties.bind || vnode.properties, [domNode as Element, projectionOptions, vnode.vnodeSelector, vnode.properties, vnode.children]);
   }
 };
 
+let initPropertiesAndChildren = function(domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) {
+  let childProjectionOptions = getChildNamespaceOptions(getTagName(vnode.vnodeSelector), projectionOptions);
+  addChildren(domNode, vnode.children, childProjectionOptions); // children before properties, needed for value property of <select>.
+  if (vnode.text) {
+    domNode.textContent = vnode.text;
+  }
+  initProperties(domNode, vnode, projectionOptions);
+};
+
 createDom = function(vnode, parentNode, insertBefore, projectionOptions) {
   let domNode: Node, i: number, c: string, start = 0, type: string, found: string;
   let vnodeSelector = vnode.vnodeSelector;
-  if (vnodeSelector === '') {
-    domNode = vnode.domNode = document.createTextNode(vnode.text);
+  let doc = parentNode.ownerDocument || document; // The parent may be part of another document, like an iframe
+  trackComponent(vnode, projectionOptions);
+  enterVNode(vnode, projectionOptions);
+  checkRenderedOnce(vnode, projectionOptions);
+  checkUniqueKeys(vnode.children, projectionOptions);
+  if (projectionOptions.mutationCounts && vnodeSelector !== FRAGMENT_SELECTOR) {
+    projectionOptions.mutationCounts.nodesCreated++;
+  }
+  if (vnodeSelector === '' || vnodeSelector === FRAGMENT_SELECTOR) {
+    // A fragment is marked by an empty text node, its children are rendered as its next siblings
+    domNode = vnode.domNode = doc.createTextNode(vnodeSelector === '' ? vnode.text : '');
     if (insertBefore !== undefined) {
       parentNode.insertBefore(domNode, insertBefore);
     } else {
       parentNode.appendChild(domNode);
     }
+    if (vnodeSelector === FRAGMENT_SELECTOR) {
+      for (i = 0; i < vnode.children.length; i++) {
+        createDom(replaceRenderedComponent(vnode.children, i), parentNode, insertBefore, projectionOptions);
+      }
+    }
   } else {
     for (i = 0; i <= vnodeSelector.length; ++i) {
       c = vnodeSelector.charAt(i);
@@ -753,13 +1868,11 @@ createDom = function(vnode, parentNode, insertBefore, projectionOptions) {
         } else if (type === '#') {
           (domNode as Element).id = found;
         } else {
-          if (found === 'svg') {
-            projectionOptions = extend(projectionOptions, { namespace: NAMESPACE_SVG });
-          }
+          projectionOptions = getElementNamespaceOptions(found, projectionOptions);
           if (projectionOptions.namespace !== undefined) {
-            domNode = vnode.domNode = document.createElementNS(projectionOptions.namespace, found);
+            domNode = vnode.domNode = doc.createElementNS(projectionOptions.namespace, found);
           } else {
-            domNode = vnode.domNode = document.createElement(found);
+            domNode = vnode.domNode = doc.createElement(found);
           }
           if (insertBefore !== undefined) {
             parentNode.insertBefore(domNode, insertBefore);
@@ -772,37 +1885,64 @@ createDom = function(vnode, parentNode, insertBefore, projectionOptions) {
     }
     initPropertiesAndChildren(domNode, vnode, projectionOptions);
   }
+  leaveVNode(vnode, projectionOptions);
 };
 
 updateDom = function(previous, vnode, projectionOptions) {
   let domNode = previous.domNode;
   let textUpdated = false;
   if (previous === vnode) {
+    checkUnmodified(vnode, projectionOptions);
     return false; // By contract, VNode objects may not be modified anymore after passing them to maquette
   }
+  trackComponent(vnode, projectionOptions);
+  if (isMemoized(previous, vnode)) {
+    // The subtree is skipped, so vnode takes over everything that was rendered for previous
+    vnode.properties = previous.properties;
+    vnode.children = previous.children;
+    vnode.text = previous.text;
+    vnode.domNode = previous.domNode;
+    return false;
+  }
+  enterVNode(vnode, projectionOptions);
   let updated = false;
-  if (vnode.vnodeSelector === '') {
+  if (isFragment(vnode)) {
+    let endNode = getLastDomNode(previous).nextSibling || undefined;
+    textUpdated = updateChildren(vnode, domNode.parentNode, previous.children, vnode.children, projectionOptions, endNode);
+  } else if (vnode.vnodeSelector === '') {
     if (vnode.text !== previous.text) {
-      let newVNode = document.createTextNode(vnode.text);
+      let newVNode = domNode.ownerDocument.createTextNode(vnode.text);
       domNode.parentNode.replaceChild(newVNode, domNode);
       vnode.domNode = newVNode;
+      if (projectionOptions.mutationCounts) {
+        projectionOptions.mutationCounts.textReplaced++;
+      }
+      leaveVNode(vnode, projectionOptions);
       textUpdated = true;
       return textUpdated;
     }
   } else {
-    if (vnode.vnodeSelector.lastIndexOf('svg', 0) === 0) { // lastIndexOf(needle,0)===0 means StartsWith
-      projectionOptions = extend(projectionOptions, { namespace: NAMESPACE_SVG });
-    }
+    let tagName = getTagName(vnode.vnodeSelector);
+    projectionOptions = getElementNamespaceOptions(tagName, projectionOptions);
     if (previous.text !== vnode.text) {
       updated = true;
+      if (projectionOptions.mutationCounts) {
+        projectionOptions.mutationCounts.textReplaced++;
+      }
       if (vnode.text === undefined) {
         domNode.removeChild(domNode.firstChild); // the only textnode presumably
       } else {
         domNode.textContent = vnode.text;
       }
     }
-    updated = updateChildren(vnode, domNode, previous.children, vnode.children, projectionOptions) || updated;
-    updated = updateProperties(domNode, previous.properties, vnode.properties, projectionOptions) || updated;
+    let childProjectionOptions = getChildNamespaceOptions(tagName, projectionOptions);
+    updated = updateChildren(vnode, domNode, previous.children, vnode.children, childProjectionOptions) || updated;
+    if (updateProperties(domNode, vnode.vnodeSelector, previous.properties, vnode.properties, projectionOptions)) {
+      updated = true;
+      if (projectionOptions.mutationCounts) {
+        projectionOptions.mutationCounts.nodesUpdated++;
+      }
+    }
     if (vnode.properties && vnode.properties.afterUpdate) {
       vnode.properties.afterUpdate.apply(vnode.properties.bind || vnode.properties, [<Element>domNode, projectionOptions, vnode.vnodeSelector, vnode.properties, vnode.children]);
     }
@@ -811,20 +1951,200 @@ updateDom = function(previous, vnode, projectionOptions) {
     vnode.properties.updateAnimation(<Element>domNode, vnode.properties, previous.properties);
   }
   vnode.domNode = previous.domNode;
+  leaveVNode(vnode, projectionOptions);
   return textUpdated;
 };
 
+let reportMismatch = function(message: string, domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) {
+  if (projectionOptions.onHydrationMismatch) {
+    projectionOptions.onHydrationMismatch(message, domNode, vnode);
+  }
+};
+
+let hydratePropertiesAndChildren: (domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) => void;
+
+// Pretty-printed HTML contains whitespace between the elements, which is not part of the VNode tree
+let removeWhitespace = function(domNode: Node, childNode: Node): Node {
+  while (childNode && childNode.nodeType === 3 /* Node.TEXT_NODE */ && /^\s*$/.test((childNode as Text).data)) {
+    let nextSibling = childNode.nextSibling;
+    domNode.removeChild(childNode);
+    childNode = nextSibling;
+  }
+  return childNode;
+};
+
+// Matches the children with the DOM nodes starting at childNode, returns the first DOM node that was not matched
+let hydrateChildNodes = function(domNode: Node, children: VNode[], childNode: Node, projectionOptions: ProjectionOptions): Node {
+  for (let i = 0; i < children.length; i++) {
+    let child = children[i];
+    if (isFragment(child)) {
+      // The HTML does not contain the empty text node that marks the start of a fragment
+      child.domNode = domNode.ownerDocument.createTextNode('');
+      domNode.insertBefore(child.domNode, childNode);
+      childNode = hydrateChildNodes(domNode, child.children, childNode, projectionOptions);
+      continue;
+    } else if (child.vnodeSelector === '') {
+      if (childNode && childNode.nodeType === 3 /* Node.TEXT_NODE */) {
+        let data = (childNode as Text).data;
+        if (data !== child.text) {
+          if (data.lastIndexOf(child.text, 0) === 0) {
+            // The HTML parser joins adjacent (and drops empty) text nodes, split them up again
+            (childNode as Text).splitText(child.text.length);
+          } else {
+            reportMismatch('Expected text "' + child.text + '", but found "' + data + '"', childNode, child, projectionOptions);
+            (childNode as Text).data = child.text;
+          }
+        }
+        child.domNode = childNode;
+        childNode = childNode.nextSibling;
+        continue;
+      }
+    } else {
+      childNode = removeWhitespace(domNode, childNode);
+      if (childNode && childNode.nodeType === 1 /* Node.ELEMENT_NODE */ &&
+        (childNode as Element).tagName.toLowerCase() === getTagName(child.vnodeSelector).toLowerCase()) {
+        child.domNode = childNode;
+        hydratePropertiesAndChildren(childNode, child, projectionOptions);
+        childNode = childNode.nextSibling;
+        continue;
+      }
+    }
+    reportMismatch('Expected ' + (child.vnodeSelector || 'a text node') + ', creating it', childNode || domNode, child, projectionOptions);
+    createDom(child, domNode, childNode || undefined, projectionOptions);
+  }
+  return childNode;
+};
+
+let hydrateChildren = function(domNode: Node, vnode: VNode, projectionOptions: ProjectionOptions) {
+  let childNode = hydrateChildNodes(domNode, vnode.children || emptyArray, domNode.firstChild, projectionOptions);
+  childNode = removeWhitespace(domNode, childNode);
+  while (childNode) {
+    let nextSibling = childNode.nextSibling;
+    reportMismatch('Unexpected node, removing it', childNode, vnode, projectionOptions);
+    domNode.removeChild(childNode);
+    childNode = nextSibling;
+  }
+};
+
+hydratePropertiesAndChildren = function(domNode, vnode, projectionOptions) {
+  trackComponent(vnode, projectionOptions);
+  let tagName = getTagName(vnode.vnodeSelector);
+  projectionOptions = getElementNamespaceOptions(tagName, projectionOptions);
+  if (vnode.properties && vnode.properties.innerHTML !== undefined) {
+    // The children will be replaced by setProperties
+  } else if (vnode.text) {
+    if (domNode.textContent !== vnode.text) {
+      reportMismatch('Expected text "' + vnode.text + '", but found "' + domNode.textContent + '"', domNode, vnode, projectionOptions);
+      domNode.textContent = vnode.text;
+    }
+  } else {
+    hydrateChildren(domNode, vnode, getChildNamespaceOptions(tagName, projectionOptions));
+  }
+  initProperties(domNode, vnode, projectionOptions);
+};
+
+// These events do not bubble, so the root of a projection can only see them during the capturing phase
+const NON_BUBBLING_EVENTS = ['blur', 'error', 'focus', 'load', 'mouseenter', 'mouseleave', 'scroll'];
+
+let createDelegatedListener = function(root: Node, eventName: string, projectionOptions: ProjectionOptions) {
+  let propName = 'on' + eventName;
+  return function(evt: Event) {
+    let propagationStopped = false;
+    let stopPropagation = evt.stopPropagation;
+    evt.stopPropagation = function() {
+      // The event has already bubbled up to the root, so we need to stop it from bubbling up the virtual DOM ourselves
+      propagationStopped = true;
+      stopPropagation.apply(evt);
+    };
+    let node = evt.target as Node;
+    while (node) {
+      let properties = (node as any)['maquette-properties'] as VNodeProperties;
+      let eventHandler: Function = properties && properties[propName];
+      if (typeof eventHandler === 'function') {
+        if (propName === 'oninput') {
+          (node as any)['oninput-value'] = (node as HTMLInputElement).value;
+        }
+        if (projectionOptions.eventHandlerInterceptor) {
+          eventHandler = projectionOptions.eventHandlerInterceptor(propName, eventHandler, node, properties);
+        }
+        // Handlers expect evt.currentTarget to be their own DOM node, not the root that handles the event
+        Object.defineProperty(evt, 'currentTarget', { value: node, configurable: true });
+        let result: any;
+        try {
+          result = eventHandler.apply(node, [evt]);
+        } finally {
+          delete (evt as any).currentTarget;
+        }
+        if (result === false) {
+          evt.preventDefault();
+        }
+        if (propagationStopped) {
+          return;
+        }
+      }
+      if (node === root || !evt.bubbles) {
+        return;
+      }
+      node = node.parentNode;
+    }
+  };
+};
+
+let addDelegatedListeners = function(root: Node, projectionOptions: ProjectionOptions) {
+  let delegatedEventNames = projectionOptions.delegatedEventNames;
+  if (!delegatedEventNames) {
+    return;
+  }
+  let listening = (root as any)['maquette-delegated'] = (root as any)['maquette-delegated'] || {};
+  for (let i = 0; i < delegatedEventNames.length; i++) {
+    let eventName = delegatedEventNames[i];
+    if (!listening[eventName]) {
+      root.addEventListener(eventName, createDelegatedListener(root, eventName, projectionOptions), NON_BUBBLING_EVENTS.indexOf(eventName) >= 0);
+      listening[eventName] = true;
+    }
+  }
+};
+
 let createProjection = function(vnode: VNode, projectionOptions: ProjectionOptions): Projection {
-  return {
+  // A fragment cannot listen to events, so its parent handles them
+  addDelegatedListeners(isFragment(vnode) ? vnode.domNode.parentNode : vnode.domNode, projectionOptions);
+  // After an error during an update, the DOM no longer matches vnode, so it cannot be used to diff against
+  let failed = false;
+  let projection: Projection = {
     update: function(updatedVnode: VNode) {
-      if (vnode.vnodeSelector !== updatedVnode.vnodeSelector) {
-        throw new Error('The selector for the root VNode may not be changed. (consider using dom.merge and add one extra level to the virtual DOM)');
+      if (projectionOptions.devPath) {
+        projectionOptions.devPath.length = 0; // The path may be left behind by an error during the previous update
+      }
+      if (failed || vnode.vnodeSelector !== updatedVnode.vnodeSelector) {
+        // The root node is replaced, just like a child would be replaced by updateChildren
+        try {
+          createDom(updatedVnode, vnode.domNode.parentNode, vnode.domNode, projectionOptions);
+        } catch (error) {
+          // Remove the partially created root, so the next attempt does not leave it behind
+          let partialNode = updatedVnode.domNode;
+          if (partialNode && partialNode !== vnode.domNode && partialNode.parentNode && !isFragment(updatedVnode)) {
+            partialNode.parentNode.removeChild(partialNode);
+          }
+          failed = true;
+          throw error;
+        }
+        nodeToRemove(vnode, projectionOptions);
+        nodeAdded(updatedVnode, projectionOptions.transitions);
+        failed = false;
+      } else {
+        failed = true;
+        updateDom(vnode, updatedVnode, projectionOptions);
+        failed = false;
       }
-      updateDom(vnode, updatedVnode, projectionOptions);
+      addDelegatedListeners(isFragment(updatedVnode) ? updatedVnode.domNode.parentNode : updatedVnode.domNode, projectionOptions);
       vnode = updatedVnode;
     },
-    domNode: <Element>vnode.domNode
+    // A component that is the root of the projection replaces its DOM node by updating the VNode, see updateComponent
+    get domNode() {
+      return <Element>vnode.domNode;
+    }
   };
+  return projection;
 };
 
 // The following line is not possible in Typescript, hence the workaround in the two lines below
@@ -842,9 +2162,25 @@ export type VNodeChild = string | VNode | VNodeChildren;
  * Contains all valid method signatures for the [[h]] function.
  */
 export interface H {
+  /**
+   * When the selector is exactly one of these tagnames, the properties are typed for that element.
+   * For example, the `oninput` handler of an `input` receives an event whose `currentTarget` is an `HTMLInputElement`.
+   * Selectors with classes or an id, like `input.name`, fall back to [[VNodeProperties]].
+   */
+  (selector: 'a', properties: AnchorProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'button', properties: ButtonProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'form', properties: FormProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'img', properties: ImageProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'input', properties: InputProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'label', properties: LabelProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'option', properties: OptionProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'select', properties: SelectProperties, ...children: VNodeChild[]): VNode;
+  (selector: 'textarea', properties: TextAreaProperties, ...children: VNodeChild[]): VNode;
   /**
    * @param selector    Contains the tagName, id and fixed css classnames in CSS selector format.
    *                    It is formatted as follows: `tagname.cssclass1.cssclass2#id`.
+   *                    The tagname defaults to `div` when the selector starts with a `.` or `#`.
+   *                    An error is thrown when the selector does not follow this format.
    * @param properties  An object literal containing properties that will be placed on the DOM node.
    * @param children    Virtual DOM nodes and strings to add as child nodes.
    *                    `children` may contain [[VNode]]s, `string`s, nested arrays, `null` and `undefined`.
@@ -856,6 +2192,58 @@ export interface H {
   (selector: string, ...children: VNodeChild[]): VNode;
 }
 
+// An optional tagname, followed by any number of non-empty .class and #id parts
+const SELECTOR_PATTERN = /^([a-zA-Z][\w-]*)?([.#][^.#\s]+)*$/;
+
+let selectorError = (selector: string, problem: string) => {
+  return new Error('Invalid selector "' + selector + '" passed to h(): ' + problem +
+    '. The expected format is "tagname.cssclass1.cssclass2#id".');
+};
+
+// The selectors that passed validation, applications use the same selectors over and over again.
+// Generated selectors, like 'li#item-' + id, are not, so the cache starts over when it holds too many selectors.
+const MAX_NORMALIZED_SELECTORS = 1000;
+let normalizedSelectors: { [selector: string]: string } = Object.create(null);
+let normalizedSelectorCount = 0;
+
+// Returns the selector with 'div' as the tagname when it starts with a . or #
+let normalizeSelector = (selector: string) => {
+  if (typeof selector !== 'string') {
+    throw new Error('The selector passed to h() must be a string, but it was ' +
+      (selector === null || selector === undefined ? selector : typeof selector));
+  }
+  let normalized = normalizedSelectors[selector];
+  if (normalized !== undefined) {
+    return normalized;
+  }
+  if (selector === FRAGMENT_SELECTOR) {
+    return selector;
+  }
+  if (selector === '') {
+    throw selectorError(selector, 'the selector may not be empty');
+  }
+  if (SELECTOR_PATTERN.test(selector) && selector.split('#').length <= 2) {
+    normalized = (selector.charAt(0) === '.' || selector.charAt(0) === '#') ? 'div' + selector : selector;
+    if (normalizedSelectorCount === MAX_NORMALIZED_SELECTORS) {
+      normalizedSelectors = Object.create(null);
+      normalizedSelectorCount = 0;
+    }
+    normalizedSelectors[selector] = normalized;
+    normalizedSelectorCount++;
+    return normalized;
+  }
+  if (/\s/.test(selector)) {
+    throw selectorError(selector, 'the selector may not contain whitespace, use the properties to set attributes');
+  }
+  if (/[.#]([.#]|$)/.test(selector)) {
+    throw selectorError(selector, 'a css class or id may not be empty');
+  }
+  if (selector.split('#').length > 2) {
+    throw selectorError(selector, 'the selector may only contain one id');
+  }
+  throw selectorError(selector, '"' + getTagName(selector) + '" is not a valid tagname');
+};
+
 /**
  * The `h` function is used to create a virtual DOM node.
  * This function is largely inspired by the mercuryjs and mithril frameworks.
@@ -870,9 +2258,7 @@ export let h: H;
 // The other two parameters are not added here, because the Typescript compiler creates surrogate code for desctructuring 'children'.
 h = function(selector: string): VNode {
   let properties = arguments[1];
-  if (typeof selector !== 'string') {
-    throw new Error();
-  }
+  selector = normalizeSelector(selector);
   let childIndex = 1;
   if (properties && !properties.hasOwnProperty('vnodeSelector') && !Array.isArray(properties) && typeof properties === 'object') {
     childIndex = 2;
@@ -916,6 +2302,105 @@ h = function(selector: string): VNode {
   };
 };
 
+/**
+ * Creates a fragment: a [[VNode]] that renders its children as siblings without a wrapping element.
+ * This makes it possible to render multiple `<tr>` or `<li>` elements from a single render function.
+ * A fragment can be used everywhere a [[VNode]] can be used, including the result of a `renderMaquetteFunction`.
+ * In the DOM, a fragment is marked by an empty text node in front of its children, which is the `domNode` of the fragment.
+ *
+ * @param properties  An optional object literal, only the [[VNodeProperties.key]] property is used.
+ * @param children    Virtual DOM nodes and strings, as they would be passed to [[h]].
+ */
+export let fragment: {
+  (properties: VNodeProperties, ...children: VNodeChild[]): VNode;
+  (...children: VNodeChild[]): VNode;
+};
+
+// The parameters are not added here, for the same reason as with h
+fragment = function(): VNode {
+  let vnode = h.apply(undefined, [FRAGMENT_SELECTOR].concat(Array.prototype.slice.call(arguments))) as VNode;
+  if (vnode.text !== undefined) {
+    vnode.children = [toTextVNode(vnode.text)];
+    vnode.text = undefined;
+  }
+  return vnode;
+};
+
+/**
+ * A function that can be used as a tag in JSX/TSX, like `<Greeting name="world" />`.
+ * It receives the attributes and the flattened children, and returns the [[VNode]] to render.
+ */
+export interface FunctionComponent {
+  (properties: any, children: VNode[]): VNode;
+}
+
+/**
+ * The factory for JSX/TSX. `<div class="x" key={k}>text</div>` is turned into `jsx('div', { class: 'x', key: k }, 'text')`,
+ * which produces the same [[VNode]] as `h('div', { class: 'x', key: k }, 'text')`.
+ * When the tag is a [[FunctionComponent]], the component is invoked with the attributes and the children.
+ *
+ * The Typescript compiler calls `React.createElement` when compiling TSX with `--jsx react`.
+ * This can be redirected to maquette by adding `let React = { createElement: jsx };` to the .tsx file.
+ *
+ * @param tag         The tagname of the element or a [[FunctionComponent]].
+ * @param properties  The attributes from JSX, which are used as the [[VNodeProperties]]. May be `null`.
+ * @param children    Virtual DOM nodes and strings, as they would be passed to [[h]].
+ */
+export let jsx: (tag: string | FunctionComponent, properties: VNodeProperties, ...children: VNodeChild[]) => VNode;
+
+// The children parameter is not added here, for the same reason as with h
+jsx = function(tag: string | FunctionComponent, properties: VNodeProperties): VNode {
+  let children = Array.prototype.slice.call(arguments, 2);
+  if (typeof tag === 'function') {
+    let flattened = [] as VNode[];
+    appendChildren('', children, flattened);
+    return (tag as FunctionComponent)(properties || {}, flattened);
+  }
+  // JSX passes null when there are no attributes, h expects the properties to be omitted in that case
+  return h.apply(undefined, (properties ? [tag, properties] : [tag]).concat(children));
+};
+
+// "declare global" is not recognized as a global augmentation by tslint
+/* tslint:disable:no-internal-module */
+declare global {
+  /**
+   * Typings that allow maquette to be used from JSX/TSX, see [[jsx]].
+   */
+  namespace JSX {
+    interface Element extends VNode {
+    }
+    interface IntrinsicElements {
+      [elementName: string]: VNodeProperties;
+      a: AnchorProperties;
+      button: ButtonProperties;
+      form: FormProperties;
+      img: ImageProperties;
+      input: InputProperties;
+      label: LabelProperties;
+      option: OptionProperties;
+      select: SelectProperties;
+      textarea: TextAreaProperties;
+    }
+  }
+}
+/* tslint:enable:no-internal-module */
+
+// Keeps the <style> elements at the start of a shadow root in sync with the styleSheets of the root VNode
+let updateStyleSheets = function(shadowRoot: Node, styleElements: Element[], vnode: VNode) {
+  let styleSheets = (vnode.properties && vnode.properties.styleSheets) || [] as string[];
+  for (let i = 0; i < styleSheets.length; i++) {
+    if (i === styleElements.length) {
+      let styleElement = shadowRoot.ownerDocument.createElement('style');
+      shadowRoot.insertBefore(styleElement, i === 0 ? shadowRoot.firstChild : styleElements[i - 1].nextSibling);
+      styleElements.push(styleElement);
+    }
+    if (styleElements[i].textContent !== styleSheets[i]) {
+      styleElements[i].textContent = styleSheets[i];
+    }
+  }
+  styleElements.splice(styleSheets.length).forEach(styleElement => shadowRoot.removeChild(styleElement));
+};
+
 /**
  * Contains simple low-level utility functions to manipulate the real DOM.
  */
@@ -939,14 +2424,14 @@ export let dom = {
   /**
    * Appends a new childnode to the DOM which is generated from a [[VNode]].
    * This is a low-level method. Users wil typically use a [[Projector]] instead.
-   * @param parentNode - The parent node for the new childNode.
+   * @param parentNode - The parent node for the new childNode. This may also be a shadow root, like the result of `element.attachShadow()`.
    * @param vnode - The root of the virtual DOM tree that was created using the [[h]] function. NOTE: [[VNode]]
    * objects may only be rendered once.
    * @param projectionOptions - Options to be used to create and update the [[Projection]].
    * @returns The [[Projection]] that was created.
    */
-  append: function(parentNode: Element, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
-    projectionOptions = applyDefaultProjectionOptions(projectionOptions);
+  append: function(parentNode: Element | DocumentFragment, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
+    projectionOptions = inheritParentNamespace(parentNode, applyDefaultProjectionOptions(projectionOptions));
     createDom(vnode, parentNode, undefined, projectionOptions);
     return createProjection(vnode, projectionOptions);
   },
@@ -961,7 +2446,7 @@ export let dom = {
    * @returns The [[Projection]] that was created.
    */
   insertBefore: function(beforeNode: Element, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
-    projectionOptions = applyDefaultProjectionOptions(projectionOptions);
+    projectionOptions = inheritParentNamespace(beforeNode.parentNode, applyDefaultProjectionOptions(projectionOptions));
     createDom(vnode, beforeNode.parentNode, beforeNode, projectionOptions);
     return createProjection(vnode, projectionOptions);
   },
@@ -978,10 +2463,55 @@ export let dom = {
    * @returns The [[Projection]] that was created.
    */
   merge: function(element: Element, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
-    projectionOptions = applyDefaultProjectionOptions(projectionOptions);
+    projectionOptions = inheritNamespace(element, applyDefaultProjectionOptions(projectionOptions));
     vnode.domNode = element;
     initPropertiesAndChildren(element, vnode, projectionOptions);
     return createProjection(vnode, projectionOptions);
+  },
+
+  /**
+   * Adopts an existing DOM tree, usually rendered on the server using [[toHTML]], as the real DOM for a [[VNode]] tree.
+   * Unlike [[merge]], the existing childnodes are matched with the children of the [[VNode]] instead of being appended to.
+   * Properties and event handlers are applied to the existing nodes and `afterCreate` callbacks are invoked.
+   * Where the DOM does not match the virtual DOM, it is repaired and [[ProjectorOptions.onHydrationMismatch]] is invoked.
+   * Whitespace between elements, like the indentation of pretty-printed HTML, is removed without reporting a mismatch.
+   * This is a low-level method. Users wil typically use a [[Projector]] instead.
+   * @param element - The existing element to adopt as the root of the new virtual DOM. The selector of the root [[VNode]] is ignored.
+   * @param vnode - The root of the virtual DOM tree that was created using the [[h]] function. NOTE: [[VNode]] objects
+   * may only be rendered once.
+   * @param projectionOptions - Options to be used to create and update the projection, see [[createProjector]].
+   * @returns The [[Projection]] that was created.
+   */
+  hydrate: function(element: Element, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
+    projectionOptions = inheritNamespace(element, applyDefaultProjectionOptions(projectionOptions));
+    vnode.domNode = element;
+    hydratePropertiesAndChildren(element, vnode, projectionOptions);
+    return createProjection(vnode, projectionOptions);
+  },
+
+  /**
+   * Attaches a shadow root to `host` and appends a new DOM node which is generated from a [[VNode]] to it.
+   * When the host already has an open shadow root, that shadow root is used.
+   * The [[VNodeProperties.styleSheets]] of the root [[VNode]] are rendered as `<style>` elements inside the shadow root,
+   * so they only apply to the rendered DOM. They are kept in sync by [[Projection.update]].
+   * This is a low-level method. Users wil typically use a [[Projector]] instead.
+   * @param host - The element to attach the shadow root to. The browser must support `attachShadow`.
+   * @param vnode - The root of the virtual DOM tree that was created using the [[h]] function. NOTE: [[VNode]]
+   * objects may only be rendered once.
+   * @param projectionOptions - Options to be used to create and update the [[Projection]].
+   * @returns The [[Projection]] that was created.
+   */
+  attachShadow: function(host: Element, vnode: VNode, projectionOptions?: ProjectionOptions): Projection {
+    let shadowRoot = (host as any).shadowRoot || (host as any).attachShadow({ mode: 'open' });
+    let styleElements = [] as Element[];
+    updateStyleSheets(shadowRoot, styleElements, vnode);
+    let projection = dom.append(shadowRoot, vnode, projectionOptions);
+    let updateProjection = projection.update;
+    projection.update = function(updatedVnode: VNode) {
+      updateProjection(updatedVnode);
+      updateStyleSheets(shadowRoot, styleElements, updatedVnode);
+    };
+    return projection;
   }
 
 };
@@ -1124,6 +2654,81 @@ export let createMapping = <Source, Target>(
   };
 };
 
+// Promise is not part of the ES5 typings, it is only used when schedulers.microtask is used
+declare let Promise: { resolve(): { then(callback: () => void): void } };
+
+/**
+ * Creates a [[ManualScheduler]], which invokes the scheduled callbacks when its [[ManualScheduler.flush|flush]] method is called.
+ */
+export let createManualScheduler = (): ManualScheduler => {
+  let callbacks: { [handle: number]: () => void } = {};
+  let lastHandle = 0;
+  return {
+    schedule: function(callback: () => void) {
+      lastHandle++;
+      callbacks[lastHandle] = callback;
+      return lastHandle;
+    },
+    cancel: function(handle: number) {
+      delete callbacks[handle];
+    },
+    flush: function() {
+      let pending = callbacks;
+      callbacks = {};
+      Object.keys(pending).forEach(handle => (pending as any)[handle]());
+    }
+  };
+};
+
+let microtaskQueue = createManualScheduler();
+
+/**
+ * The [[Scheduler]]s that maquette provides, see [[ProjectorOptions.scheduler]].
+ */
+export let schedulers = {
+  /**
+   * Invokes callbacks before the next repaint using `requestAnimationFrame`. This is the default.
+   */
+  animationFrame: <Scheduler>{
+    schedule: (callback: () => void) => requestAnimationFrame(callback),
+    cancel: (handle: number) => cancelAnimationFrame(handle)
+  },
+  /**
+   * Invokes callbacks after the current task using a resolved `Promise`. Requires `Promise` to be available.
+   */
+  microtask: <Scheduler>{
+    schedule: function(callback: () => void) {
+      let handle = microtaskQueue.schedule(callback);
+      Promise.resolve().then(microtaskQueue.flush);
+      return handle;
+    },
+    cancel: (handle: number) => microtaskQueue.cancel(handle)
+  },
+  /**
+   * Invokes callbacks using `setTimeout`. Useful in hosts without `requestAnimationFrame` and in tabs that are in the background.
+   */
+  timeout: <Scheduler>{
+    schedule: (callback: () => void) => setTimeout(callback, 0),
+    cancel: (handle: number) => clearTimeout(handle)
+  }
+};
+
+// Instrumentation helper functions
+
+let now = () => typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+let createMutationCounts = (): MutationCounts => {
+  return { nodesCreated: 0, nodesRemoved: 0, nodesMoved: 0, nodesUpdated: 0, attributesChanged: 0, textReplaced: 0 };
+};
+
+let subtractMutationCounts = (counts: MutationCounts, before: MutationCounts) => {
+  let result = createMutationCounts();
+  Object.keys(result).forEach(name => {
+    (result as any)[name] = (counts as any)[name] - (before as any)[name];
+  });
+  return result;
+};
+
 /**
  * Creates a [[Projector]] instance using the provided projectionOptions.
  *
@@ -1134,6 +2739,10 @@ export let createMapping = <Source, Target>(
 export let createProjector = function(projectorOptions: ProjectorOptions): Projector {
   let projector: Projector;
   let projectionOptions = applyDefaultProjectionOptions(projectorOptions);
+  let scheduler = projectionOptions.scheduler || schedulers.animationFrame;
+  if (projectionOptions.afterRender) {
+    projectionOptions.mutationCounts = createMutationCounts(); // shared with all projections, which copy projectionOptions
+  }
   projectionOptions.eventHandlerInterceptor = function(propertyName: string, eventHandler: Function, domNode: Node, properties: VNodeProperties) {
     return function() {
       // intercept function calls (event handlers) to do a render afterwards.
@@ -1144,69 +2753,220 @@ export let createProjector = function(projectorOptions: ProjectorOptions): Proje
   let renderCompleted = true;
   let scheduled: number;
   let stopped = false;
+  let renderAllPending = false;
+  let componentRenders = [] as (() => void)[];
+  let renderedCallbacks = [] as (() => void)[];
   let projections = [] as Projection[];
   let renderFunctions = [] as (() => VNode)[]; // matches the projections array
+  let renderedVnodes = [] as VNode[]; // matches the projections array
+  let stoppedVnodes = [] as VNode[]; // The projections for which afterRemoved was invoked by stop
+
+  // Renders a projection for the first time, which needs the fallback because there is no previous DOM to keep
+  let renderInitial = function(renderFunction: () => VNode): VNode {
+    if (!projectionOptions.onRenderError) {
+      return renderFunction();
+    }
+    try {
+      return renderFunction();
+    } catch (error) {
+      let fallback = projectionOptions.onRenderError(error, renderFunction);
+      if (!fallback) {
+        throw error;
+      }
+      return fallback as VNode;
+    }
+  };
+
+  let updateProjection = function(index: number, updatedVnode: VNode) {
+    projections[index].update(updatedVnode);
+    renderedVnodes[index] = updatedVnode;
+  };
+
+  let renderProjection = function(index: number) {
+    let renderFunction = renderFunctions[index];
+    if (!projectionOptions.onRenderError) {
+      updateProjection(index, renderFunction());
+      return;
+    }
+    try {
+      updateProjection(index, renderFunction());
+    } catch (error) {
+      let fallback = projectionOptions.onRenderError(error, renderFunction);
+      if (fallback) {
+        updateProjection(index, fallback as VNode);
+      }
+    }
+  };
+
+  let runComponentRender = function(render: () => void) {
+    if (!projectionOptions.onRenderError) {
+      render();
+      return;
+    }
+    try {
+      render();
+    } catch (error) {
+      projectionOptions.onRenderError(error, undefined);
+    }
+  };
+
+  // Adds the duration and the DOM mutations of a render to the report, when afterRender needs one
+  let measure = function(report: RenderReport, renderMaquetteFunction: () => VNode, render: () => void) {
+    if (!report) {
+      render();
+      return;
+    }
+    let start = now();
+    let before = extend(projectionOptions.mutationCounts, {});
+    render();
+    report.projections.push({
+      renderMaquetteFunction: renderMaquetteFunction,
+      duration: now() - start,
+      mutations: subtractMutationCounts(projectionOptions.mutationCounts, before)
+    });
+  };
 
   let doRender = function() {
     scheduled = undefined;
     if (!renderCompleted) {
       return; // The last render threw an error, it should be logged in the browser console.
     }
+    if (projectionOptions.beforeRender) {
+      projectionOptions.beforeRender();
+    }
+    let start = now();
+    let report: RenderReport = projectionOptions.afterRender ? { duration: 0, projections: [] } : undefined;
     renderCompleted = false;
-    for (let i = 0; i < projections.length; i++) {
-      let updatedVnode = renderFunctions[i]();
-      projections[i].update(updatedVnode);
+    if (renderAllPending) {
+      renderAllPending = false;
+      for (let i = 0; i < projections.length; i++) {
+        measure(report, renderFunctions[i], () => renderProjection(i));
+      }
     }
+    // Components that were rendered by their parents during the previous loop are skipped
+    let renders = componentRenders;
+    componentRenders = [];
+    renders.forEach(render => measure(report, undefined, () => runComponentRender(render)));
     renderCompleted = true;
+    if (report) {
+      report.duration = now() - start;
+      projectionOptions.afterRender(report);
+    }
+    let callbacks = renderedCallbacks;
+    renderedCallbacks = [];
+    callbacks.forEach(callback => callback());
+  };
+
+  projectionOptions.scheduleComponentRender = function(render) {
+    componentRenders.push(render);
+    if (!scheduled && !stopped) {
+      scheduled = scheduler.schedule(doRender);
+    }
   };
 
   projector = {
     scheduleRender: function() {
+      renderAllPending = true;
       if (!scheduled && !stopped) {
-        scheduled = requestAnimationFrame(doRender);
+        scheduled = scheduler.schedule(doRender);
+      }
+    },
+    renderNow: function() {
+      if (stopped) {
+        return;
+      }
+      if (scheduled) {
+        scheduler.cancel(scheduled);
+      }
+      renderAllPending = true;
+      doRender();
+    },
+
+    whenRendered: function(callback) {
+      if (scheduled || !renderCompleted) {
+        renderedCallbacks.push(callback);
+      } else {
+        callback();
       }
     },
+
     stop: function() {
       if (scheduled) {
-        cancelAnimationFrame(scheduled);
+        scheduler.cancel(scheduled);
         scheduled = undefined;
       }
-      stopped = true;
+      if (!stopped) {
+        stopped = true;
+        // The DOM is no longer maintained, so afterRemoved is invoked for every projection
+        stoppedVnodes = renderedVnodes.slice();
+        stoppedVnodes.forEach(callAfterRemoved);
+      }
     },
 
     resume: function() {
+      stoppedVnodes.forEach(vnode => {
+        if (renderedVnodes.indexOf(vnode) >= 0) {
+          callAfterCreate(vnode, inheritParentNamespace(vnode.domNode.parentNode, projectionOptions));
+        }
+      });
+      stoppedVnodes = [];
       stopped = false;
       renderCompleted = true;
       projector.scheduleRender();
     },
 
     append: function(parentNode, renderMaquetteFunction) {
-      projections.push(dom.append(parentNode, renderMaquetteFunction(), projectionOptions));
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.append(parentNode, vnode, projectionOptions));
       renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
     },
 
     insertBefore: function(beforeNode, renderMaquetteFunction) {
-      projections.push(dom.insertBefore(beforeNode, renderMaquetteFunction(), projectionOptions));
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.insertBefore(beforeNode, vnode, projectionOptions));
       renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
     },
 
     merge: function(domNode, renderMaquetteFunction) {
-      projections.push(dom.merge(domNode, renderMaquetteFunction(), projectionOptions));
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.merge(domNode, vnode, projectionOptions));
+      renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
+    },
+
+    hydrate: function(domNode, renderMaquetteFunction) {
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.hydrate(domNode, vnode, projectionOptions));
       renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
     },
 
     replace: function(domNode, renderMaquetteFunction) {
-      let vnode = renderMaquetteFunction();
-      createDom(vnode, domNode.parentNode, domNode, projectionOptions);
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.insertBefore(domNode, vnode, projectionOptions));
       domNode.parentNode.removeChild(domNode);
-      projections.push(createProjection(vnode, projectionOptions));
       renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
+    },
+
+    attachShadow: function(host, renderMaquetteFunction) {
+      let vnode = renderInitial(renderMaquetteFunction);
+      projections.push(dom.attachShadow(host, vnode, projectionOptions));
+      renderFunctions.push(renderMaquetteFunction);
+      renderedVnodes.push(vnode);
     },
 
     detach: function(renderMaquetteFunction) {
       for (let i = 0; i < renderFunctions.length; i++) {
         if (renderFunctions[i] === renderMaquetteFunction) {
           renderFunctions.splice(i, 1);
+          let vnode = renderedVnodes.splice(i, 1)[0];
+          // When the projector is stopped, afterRemoved was already invoked
+          if (stoppedVnodes.indexOf(vnode) < 0) {
+            callAfterRemoved(vnode);
+          }
           return projections.splice(i, 1)[0];
         }
       }
@@ -1224,7 +2984,8 @@ export let createProjector = function(projectorOptions: ProjectorOptions): Proje
  * This can be achieved by calling the subcomponents `renderMaquette` functions during the [[renderMaquette]] function and by using the
  * resulting [[VNode]]s in the return value.
  *
- * This interface is not used anywhere in the maquette sourcecode, but this is a widely used pattern.
+ * Components can also be rendered using [[renderComponent]], which makes it possible to re-render a single component
+ * using [[invalidateComponent]], without calling the `renderMaquetteFunction`s of the [[Projector]].
  */
 export interface Component {
   /**
@@ -1232,3 +2993,73 @@ export interface Component {
    */
   renderMaquette(): VNode;
 }
+
+// Nodes with delegated event listeners are the roots of projections
+let findDelegationRoot = (node: Node) => {
+  while (node && !(node as any)['maquette-delegated']) {
+    node = node.parentNode;
+  }
+  return node;
+};
+
+let updateComponent = function(instance: Component) {
+  let state = getComponentState(instance);
+  let projectionOptions = state.projectionOptions;
+  if (!state.invalidated || !projectionOptions) {
+    return; // Already rendered as part of its parent, or no longer in the DOM
+  }
+  let previous = state.vnode;
+  let vnode = renderInstance(instance, state);
+  if (same(previous, vnode)) {
+    updateDom(previous, vnode, projectionOptions);
+  } else {
+    createDom(vnode, previous.domNode.parentNode, previous.domNode, projectionOptions);
+    nodeToRemove(extend(previous, {}), projectionOptions);
+    nodeAdded(vnode, projectionOptions.transitions);
+  }
+  // When the component is the root of a projection, its new DOM node becomes the root that handles the delegated events
+  let delegationRoot = (previous.domNode as any)['maquette-delegated'] ? vnode.domNode : findDelegationRoot(vnode.domNode);
+  if (delegationRoot) {
+    addDelegatedListeners(delegationRoot, projectionOptions);
+  }
+  // The parent VNode still contains the previous VNode as its child, so the previous VNode takes over the new one
+  previous.vnodeSelector = vnode.vnodeSelector;
+  previous.properties = vnode.properties;
+  previous.children = vnode.children;
+  previous.text = vnode.text;
+  previous.domNode = vnode.domNode;
+  state.vnode = previous;
+};
+
+/**
+ * Renders a [[Component]] to a [[VNode]] that can be used as a child in the [[VNode]] tree of its parent.
+ * The component is only rendered again after [[invalidateComponent]] was called, otherwise the previous [[VNode]] is returned,
+ * which means that maquette skips the whole subtree while updating the DOM.
+ * The [[VNodeProperties.bind]] property of the returned [[VNode]] is set to the component, so event handlers are invoked with `this`
+ * set to the component and the component is distinguishable from its siblings.
+ *
+ * @param instance  The component to render.
+ * @returns         The [[VNode]] that represents the component.
+ */
+export let renderComponent = function(instance: Component): VNode {
+  let state = getComponentState(instance);
+  return state.invalidated ? renderInstance(instance, state) : state.vnode;
+};
+
+/**
+ * Marks a component that was rendered using [[renderComponent]] as changed.
+ * When the component was rendered by a [[Projector]], only this component is rendered again on the next animation frame.
+ * Otherwise, the component is rendered again as part of the next update of its parent.
+ *
+ * @param instance  The component that has changed.
+ */
+export let invalidateComponent = function(instance: Component) {
+  let state = getComponentState(instance);
+  if (state.invalidated) {
+    return;
+  }
+  state.invalidated = true;
+  if (state.projectionOptions && state.projectionOptions.scheduleComponentRender) {
+    state.projectionOptions.scheduleComponentRender(() => updateComponent(instance));
+  }
+};
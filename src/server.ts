@@ -0,0 +1,211 @@
+// Comment that is displayed in the API documentation for the server module:
+/**
+ * Renders maquette [[VNode]] trees to HTML strings, for example to render the first page on the server.
+ * This module is kept separate from the maquette module, so it does not add to the size of maquette in the browser.
+ * It is published as `maquette/dist/server`.
+ */
+
+import {VNode, ProjectionOptions} from './maquette';
+
+const NAMESPACE_SVG = 'http://www.w3.org/2000/svg';
+const NAMESPACE_MATHML = 'http://www.w3.org/1998/Math/MathML';
+
+// The vnodeSelector of a fragment, see [[fragment]]
+const FRAGMENT_SELECTOR = '<>';
+
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'keygen', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+// The content of these elements is not parsed as HTML, so their text is written as-is
+const RAW_TEXT_ELEMENTS = ['script', 'style'];
+
+// Properties that are assigned to the DOM node by maquette, but which are known by a different name as an attribute
+const PROPERTY_TO_ATTRIBUTE: { [index: string]: string } = {
+  accessKey: 'accesskey',
+  htmlFor: 'for',
+  readOnly: 'readonly',
+  tabIndex: 'tabindex'
+};
+
+// VNodeProperties that are only meaningful to maquette itself and never end up in the DOM
+const MAQUETTE_PROPERTIES = ['key', 'bind', 'memo', 'styleSheets', 'enterAnimation', 'exitAnimation', 'updateAnimation'];
+
+let escapeHTML = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+let escapeAttribute = (value: string) => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+};
+
+let hyphenate = (styleName: string) => {
+  return styleName.replace(/[A-Z]/g, match => '-' + match.toLowerCase());
+};
+
+let toClassTokens = (value: string) => {
+  return value ? value.split(/\s+/).filter(token => token !== '') : [];
+};
+
+let renderRawText = function(tagName: string, vnode: VNode) {
+  let text = vnode.text || (vnode.children || []).map(child => child.text || '').join('');
+  if (text.toLowerCase().indexOf('</' + tagName) >= 0) {
+    throw new Error('The content of <' + tagName + '> may not contain "</' + tagName + '", because it would end the element.');
+  }
+  return text;
+};
+
+// <svg> and <math> start a new namespace, other elements use the namespace of their parent
+let getElementNamespace = (tagName: string, namespace: string) => {
+  if (tagName === 'svg') {
+    return NAMESPACE_SVG;
+  }
+  if (tagName === 'math') {
+    return NAMESPACE_MATHML;
+  }
+  return namespace;
+};
+
+let renderHTML = function(vnode: VNode, namespace: string): string {
+  let vnodeSelector = vnode.vnodeSelector;
+  if (vnodeSelector === '') {
+    return escapeHTML(vnode.text);
+  }
+  if (vnodeSelector === FRAGMENT_SELECTOR) {
+    return vnode.children.map(child => renderHTML(child, namespace)).join('');
+  }
+  let tagName: string;
+  let id: string;
+  let classNames = [] as string[];
+  let start = 0;
+  for (let i = 0; i <= vnodeSelector.length; ++i) {
+    let c = vnodeSelector.charAt(i);
+    if (i === vnodeSelector.length || c === '.' || c === '#') {
+      let type = vnodeSelector.charAt(start - 1);
+      let found = vnodeSelector.slice(start, i);
+      if (type === '.') {
+        classNames.push(found);
+      } else if (type === '#') {
+        id = found;
+      } else {
+        tagName = found;
+      }
+      start = i + 1;
+    }
+  }
+  namespace = getElementNamespace(tagName, namespace);
+  let attributes = [] as string[];
+  let styles = [] as string[];
+  let content: string;
+  let renderProperty = (propName: string, propValue: any) => {
+    if (propValue === null || propValue === undefined || propValue === false) {
+      return;
+    }
+    let type = typeof propValue;
+    if (type === 'function' || type === 'object') {
+      return; // event handlers, afterCreate, afterUpdate and properties that cannot be expressed as an attribute
+    }
+    if (propName === 'value' && tagName === 'textarea') {
+      content = escapeHTML(propValue.toString());
+      return;
+    }
+    if (propName === 'id') {
+      id = propValue.toString();
+      return;
+    }
+    let attributeName = PROPERTY_TO_ATTRIBUTE[propName] || propName;
+    if (namespace === NAMESPACE_SVG && propName === 'href') {
+      attributeName = 'xlink:href';
+    }
+    if (propValue === true) {
+      attributes.push(attributeName);
+    } else {
+      attributes.push(attributeName + '="' + escapeAttribute(propValue.toString()) + '"');
+    }
+  };
+  let properties = vnode.properties;
+  if (properties) {
+    Object.keys(properties).forEach(propName => {
+      let propValue = properties[propName];
+      if (propName === 'className') {
+        throw new Error('Property "className" is not supported, use "class".');
+      } else if (propName === 'class') {
+        toClassTokens(propValue).forEach(token => {
+          if (classNames.indexOf(token) === -1) {
+            classNames.push(token);
+          }
+        });
+      } else if (propName === 'classes') {
+        Object.keys(propValue).forEach(className => {
+          if (propValue[className] && classNames.indexOf(className) === -1) {
+            classNames.push(className);
+          }
+        });
+      } else if (propName === 'styles') {
+        Object.keys(propValue).forEach(styleName => {
+          let styleValue = propValue[styleName];
+          if (styleValue) {
+            if (typeof styleValue !== 'string') {
+              throw new Error('Style values must be strings');
+            }
+            styles.push(hyphenate(styleName) + ': ' + styleValue + ';');
+          }
+        });
+      } else if (propName === 'innerHTML') {
+        content = propValue;
+      } else if (propName === 'attrs' && propValue) {
+        Object.keys(propValue).forEach(attrName => {
+          let attrValue = propValue[attrName];
+          if (attrValue !== null && attrValue !== undefined) {
+            let attributeName = (namespace === NAMESPACE_SVG && attrName === 'href') ? 'xlink:href' : attrName;
+            attributes.push(attributeName + '="' + escapeAttribute('' + attrValue) + '"');
+          }
+        });
+      } else if (propName === 'props' && propValue) {
+        Object.keys(propValue).forEach(name => renderProperty(name, propValue[name]));
+      } else if (MAQUETTE_PROPERTIES.indexOf(propName) < 0) {
+        renderProperty(propName, propValue);
+      }
+    });
+  }
+  if (id !== undefined) {
+    attributes.unshift('id="' + escapeAttribute(id) + '"');
+  }
+  if (classNames.length > 0) {
+    attributes.push('class="' + escapeAttribute(classNames.join(' ')) + '"');
+  }
+  if (styles.length > 0) {
+    attributes.push('style="' + escapeAttribute(styles.join(' ')) + '"');
+  }
+  let html = '<' + tagName + (attributes.length > 0 ? ' ' + attributes.join(' ') : '') + '>';
+  if (namespace === undefined && VOID_ELEMENTS.indexOf(tagName) >= 0) {
+    return html;
+  }
+  if (content === undefined) {
+    if (namespace === undefined && RAW_TEXT_ELEMENTS.indexOf(tagName) >= 0) {
+      content = renderRawText(tagName, vnode);
+    } else if (vnode.text) {
+      content = escapeHTML(vnode.text);
+    } else if (vnode.children) {
+      // The children of an svg <foreignObject> are html again
+      let childNamespace = (tagName === 'foreignObject' && namespace === NAMESPACE_SVG) ? undefined : namespace;
+      content = vnode.children.map(child => renderHTML(child, childNamespace)).join('');
+    } else {
+      content = '';
+    }
+  }
+  return html + content + '</' + tagName + '>';
+};
+
+/**
+ * Serializes a [[VNode]] tree to an HTML string, for example to render the first page on the server.
+ * The same rules that apply when rendering to the real DOM are applied, except that event handlers,
+ * [[VNodeProperties.afterCreate]] and other callbacks are skipped, because they can only run in the browser.
+ * The resulting HTML can be brought to life in the browser using [[dom.merge]] or a [[Projector]].
+ *
+ * @param vnode - The root of the virtual DOM tree that was created using the [[h]] function.
+ * @param projectionOptions - Options to be used to render the HTML. Only the `namespace` is taken into account.
+ * @returns The HTML string. Text and attribute values are escaped, the value of `innerHTML` and the text of `<script>` and `<style>`
+ * elements are inserted as-is.
+ */
+export let toHTML = function(vnode: VNode, projectionOptions?: ProjectionOptions): string {
+  return renderHTML(vnode, projectionOptions ? projectionOptions.namespace : undefined);
+};
@@ -0,0 +1,186 @@
+import {expect, sinon, jsdom} from './utilities';
+import {createProjector, dom, h, renderComponent, invalidateComponent, Component, VNode} from '../src/maquette';
+
+describe('Component', () => {
+
+  jsdom();
+
+  let createCounter = (): Component & { count: number, increment(): void } => {
+    let counter = {
+      count: 0,
+      increment: function() {
+        counter.count++;
+        invalidateComponent(counter);
+      },
+      renderMaquette: sinon.spy(() => h('button', { onclick: counter.increment }, [String(counter.count)]))
+    };
+    return counter;
+  };
+
+  it('returns the previous VNode until it is invalidated', () => {
+    let counter = createCounter();
+    let vnode = renderComponent(counter);
+    expect(renderComponent(counter)).to.equal(vnode);
+    expect(vnode.properties.bind).to.equal(counter);
+
+    invalidateComponent(counter);
+    expect(renderComponent(counter)).not.to.equal(vnode);
+    expect(counter.renderMaquette).to.have.been.calledTwice;
+  });
+
+  it('is rendered again as part of its parent when it is not rendered by a projector', () => {
+    let counter = createCounter();
+    let projection = dom.create(h('div', [renderComponent(counter)]));
+    counter.count = 5;
+    invalidateComponent(counter);
+    expect(projection.domNode.textContent).to.equal('0');
+
+    projection.update(h('div', [renderComponent(counter)]));
+    expect(projection.domNode.textContent).to.equal('5');
+  });
+
+  describe('in a projector', () => {
+
+    beforeEach(function() {
+      global.requestAnimationFrame = sinon.stub().returns(5);
+      global.cancelAnimationFrame = sinon.stub();
+    });
+
+    afterEach(function() {
+      delete global.requestAnimationFrame;
+      delete global.cancelAnimationFrame;
+    });
+
+    it('renders only the invalidated component on the next animation frame', () => {
+      let counters = [createCounter(), createCounter()];
+      let renderFunction = sinon.spy(() => h('div', counters.map(counter => renderComponent(counter))));
+      let parentElement = document.createElement('div');
+      let projector = createProjector({});
+      projector.append(parentElement, renderFunction);
+      let firstButton = parentElement.querySelector('button');
+
+      counters[0].count = 1;
+      invalidateComponent(counters[0]);
+      expect(global.requestAnimationFrame).to.have.been.calledOnce;
+      global.requestAnimationFrame.lastCall.callArg(0);
+
+      expect(parentElement.innerHTML).to.equal('<div><button>1</button><button>0</button></div>');
+      expect(parentElement.querySelector('button')).to.equal(firstButton);
+      expect(renderFunction).to.have.been.calledOnce;
+      expect(counters[0].renderMaquette).to.have.been.calledTwice;
+      expect(counters[1].renderMaquette).to.have.been.calledOnce;
+
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(renderFunction).to.have.been.calledTwice;
+      expect(counters[0].renderMaquette).to.have.been.calledTwice;
+    });
+
+    it('invokes event handlers with "this" set to the component', () => {
+      let handleClick = sinon.stub();
+      let component = { renderMaquette: () => h('button', { onclick: handleClick }) };
+      let parentElement = document.createElement('div');
+      createProjector({}).append(parentElement, () => h('div', [renderComponent(component)]));
+
+      (parentElement.querySelector('button') as HTMLButtonElement).onclick({} as any);
+      expect(handleClick).to.have.been.calledOn(component);
+    });
+
+    it('keeps the parent in sync when the component renders a different root', () => {
+      let editing = false;
+      let component = { renderMaquette: () => editing ? h('input') : h('span', ['text']) };
+      let renderFunction = () => h('div', [h('b'), renderComponent(component), h('i')]);
+      let parentElement = document.createElement('div');
+      let projector = createProjector({});
+      projector.append(parentElement, renderFunction);
+
+      editing = true;
+      invalidateComponent(component);
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<div><b></b><input><i></i></div>');
+
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<div><b></b><input><i></i></div>');
+    });
+
+    it('updates the projection when the component is its root and renders a different root', () => {
+      let editing = false;
+      let handleClick = sinon.stub();
+      let component = { renderMaquette: () => editing ? h('input', { onclick: handleClick }) : h('span', ['text']) };
+      let renderFunction = () => renderComponent(component);
+      let parentElement = document.createElement('div');
+      let projector = createProjector({ eventDelegation: true });
+      projector.append(parentElement, renderFunction);
+
+      editing = true;
+      invalidateComponent(component);
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<input>');
+
+      let evt = document.createEvent('Event');
+      evt.initEvent('click', true, true);
+      parentElement.firstChild.dispatchEvent(evt);
+      expect(handleClick).to.have.been.calledOnce;
+
+      let projection = projector.detach(renderFunction);
+      expect(projection.domNode).to.equal(parentElement.firstChild);
+    });
+
+    it('keeps rendering the component when its parent renders a different root', () => {
+      let counter = createCounter();
+      let wrap = 'div';
+      let parentElement = document.createElement('div');
+      let projector = createProjector({});
+      projector.append(parentElement, () => h(wrap, [renderComponent(counter)]));
+
+      wrap = 'section';
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<section><button>0</button></section>');
+
+      counter.increment();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<section><button>1</button></section>');
+    });
+
+    it('passes the removed element to afterRemoved when its parent renders a different root', () => {
+      let afterRemoved = sinon.stub();
+      let component = { renderMaquette: () => h('span', { afterRemoved }) };
+      let wrap = 'div';
+      let parentElement = document.createElement('div');
+      let projector = createProjector({});
+      projector.append(parentElement, () => h(wrap, [renderComponent(component)]));
+      let oldSpan = parentElement.querySelector('span');
+
+      wrap = 'section';
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(afterRemoved).to.have.been.calledOnce;
+      expect(afterRemoved.lastCall.args[0]).to.equal(oldSpan);
+      expect(parentElement.querySelector('span')).not.to.equal(oldSpan);
+    });
+
+    it('does not render a component that was removed', () => {
+      let counter = createCounter();
+      let showCounter = true;
+      let renderFunction = () => h('div', [showCounter ? renderComponent(counter) : undefined]) as VNode;
+      let parentElement = document.createElement('div');
+      let projector = createProjector({});
+      projector.append(parentElement, renderFunction);
+
+      showCounter = false;
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      counter.increment();
+      expect(global.requestAnimationFrame).to.have.been.calledOnce;
+
+      showCounter = true;
+      projector.scheduleRender();
+      global.requestAnimationFrame.lastCall.callArg(0);
+      expect(parentElement.innerHTML).to.equal('<div><button>1</button></div>');
+    });
+
+  });
+
+});
@@ -41,4 +41,42 @@ describe('dom', () => {
 
   });
 
+  describe('afterRemoved', () => {
+
+    it('is invoked for the removed node and its descendants', () => {
+      let afterRemoved = sinon.stub();
+      let thisObject = {};
+      let projection = dom.create(h('div', [h('ul', { afterRemoved, bind: thisObject }, [h('li', { afterRemoved }), 'text'])]));
+      let list = projection.domNode.firstChild;
+      let listItem = list.firstChild;
+
+      projection.update(h('div', [h('ul', { afterRemoved, bind: thisObject }, [h('li', { afterRemoved }), 'text'])]));
+      expect(afterRemoved).not.to.have.been.called;
+
+      projection.update(h('div', []));
+      expect(afterRemoved).to.have.been.calledTwice;
+      expect(afterRemoved.firstCall).to.have.been.calledWithExactly(listItem);
+      expect(afterRemoved.secondCall).to.have.been.calledWithExactly(list);
+      expect(afterRemoved.secondCall).to.have.been.calledOn(thisObject);
+    });
+
+    it('is invoked after the exitAnimation has removed the node', () => {
+      let afterRemoved = sinon.stub();
+      let exitAnimation = sinon.stub();
+      let projection = dom.create(h('div', [h('span', { exitAnimation, afterRemoved })]));
+      let span = projection.domNode.firstChild;
+
+      projection.update(h('div', []));
+      expect(afterRemoved).not.to.have.been.called;
+
+      exitAnimation.lastCall.callArg(1);
+      expect(afterRemoved).to.have.been.calledOnce;
+      expect(afterRemoved).to.have.been.calledWith(span);
+
+      exitAnimation.lastCall.callArg(1);
+      expect(afterRemoved).to.have.been.calledOnce;
+    });
+
+  });
+
 });
@@ -1,4 +1,4 @@
-import {expect, jsdom} from '../utilities';
+import {expect, jsdom, sinon} from '../utilities';
 import {h, dom} from '../../src/maquette';
 
 describe('dom', function() {
@@ -178,7 +178,7 @@ describe('dom', function() {
       expect(div.childNodes[1]).to.equal(thirdSpan);
     });
 
-    it('does not reorder nodes based on keys', () => {
+    it('reorders nodes based on keys', () => {
       let projection = dom.create(h('div', [
         h('span', { key: 'a' }),
         h('span', { key: 'b' })
@@ -195,8 +195,48 @@ describe('dom', function() {
       ]));
 
       expect(div.childNodes.length).to.equal(2);
-      expect(div.childNodes[1]).to.not.equal(firstSpan);
       expect(div.childNodes[0]).to.equal(lastSpan);
+      expect(div.childNodes[1]).to.equal(firstSpan);
+    });
+
+    it('moves as few nodes as possible', () => {
+      let render = (keys: number[]) => h('div', keys.map(key => h('span', { key }, [key.toString()])));
+      let projection = dom.create(render([1, 2, 3, 4, 5]));
+      let div = projection.domNode as HTMLDivElement;
+      let spans = Array.prototype.slice.call(div.childNodes);
+      let insertBefore = sinon.spy(div, 'insertBefore');
+
+      // Moving one node to the front
+      projection.update(render([5, 1, 2, 3, 4]));
+      expect(insertBefore).to.have.been.calledOnce;
+      expect(div.textContent).to.equal('51234');
+      expect(div.firstChild).to.equal(spans[4]);
+
+      // Reversing
+      insertBefore.reset();
+      projection.update(render([4, 3, 2, 1, 5]));
+      expect(insertBefore).to.have.callCount(4);
+      expect(div.textContent).to.equal('43215');
+      expect(Array.prototype.slice.call(div.childNodes)).to.deep.equal([spans[3], spans[2], spans[1], spans[0], spans[4]]);
+
+      // Moving, adding and removing at the same time
+      projection.update(render([6, 2, 4, 3]));
+      expect(div.textContent).to.equal('6243');
+      expect(div.childNodes[1]).to.equal(spans[1]);
+      expect(div.childNodes[2]).to.equal(spans[3]);
+    });
+
+    it('does not run enter and exit animations for nodes that are moved', () => {
+      let enterAnimation = sinon.stub();
+      let exitAnimation = sinon.stub();
+      let render = (keys: string[]) => h('div', keys.map(key => h('span', { key, enterAnimation, exitAnimation })));
+      let projection = dom.create(render(['a', 'b', 'c']));
+
+      projection.update(render(['c', 'a', 'b']));
+
+      expect(enterAnimation).not.to.have.been.called;
+      expect(exitAnimation).not.to.have.been.called;
+      expect(projection.domNode.childNodes).to.have.length(3);
     });
 
     it('can insert textnodes', () => {
@@ -301,6 +341,78 @@ describe('dom', function() {
         expect(blueCircle.namespaceURI).to.equal('http://www.w3.org/2000/svg');
       });
 
+      it('creates the children of foreignObject as html', () => {
+        let render = (text: string) => h('svg', [
+          h('foreignObject', { width: '100' }, [
+            h('div', [h('p', [text])])
+          ]),
+          h('text', ['label'])
+        ]);
+        let projection = dom.create(render('a'));
+        let foreignObject = projection.domNode.firstChild;
+        expect(foreignObject.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+        expect(foreignObject.firstChild.namespaceURI).to.equal('http://www.w3.org/1999/xhtml');
+        expect(foreignObject.firstChild.firstChild.namespaceURI).to.equal('http://www.w3.org/1999/xhtml');
+        expect(projection.domNode.lastChild.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+
+        projection.update(h('svg', [
+          h('foreignObject', { width: '100' }, [
+            h('div', [h('p', ['b']), h('span')])
+          ]),
+          h('text', ['label'])
+        ]));
+        expect(foreignObject.firstChild.lastChild.namespaceURI).to.equal('http://www.w3.org/1999/xhtml');
+      });
+
+      it('sets attributes with an xlink, xml or xmlns prefix in their namespace', () => {
+        let projection = dom.create(h('svg', [
+          h('a', { 'xlink:title': 'link', 'xml:lang': 'nl', attrs: { 'xlink:show': 'new' } })
+        ]));
+        let link = projection.domNode.firstChild as Element;
+        expect(link.getAttributeNS('http://www.w3.org/1999/xlink', 'title')).to.equal('link');
+        expect(link.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang')).to.equal('nl');
+        expect(link.getAttributeNS('http://www.w3.org/1999/xlink', 'show')).to.equal('new');
+
+        projection.update(h('svg', [
+          h('a', { 'xml:lang': 'en' })
+        ]));
+        expect(link.hasAttributeNS('http://www.w3.org/1999/xlink', 'title')).to.be.false;
+        expect(link.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang')).to.equal('en');
+        expect(link.hasAttributeNS('http://www.w3.org/1999/xlink', 'show')).to.be.false;
+      });
+
+      it('uses the namespace of the svg element it is appended to', () => {
+        let svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+        let projection = dom.append(svg, h('circle', { r: '1' }));
+        expect(projection.domNode.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+
+        projection.update(h('g', [h('circle')]));
+        expect(svg.firstChild.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+        expect(svg.firstChild.firstChild.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+      });
+
+    });
+
+    describe('mathml', () => {
+
+      it('creates and updates mathml dom nodes with the right namespace', () => {
+        let render = (exponent: string) => h('p', [
+          h('math', [h('msup', [h('mi', ['x']), h('mn', [exponent])])]),
+          h('span')
+        ]);
+        let projection = dom.create(render('2'));
+        let math = projection.domNode.firstChild;
+        expect(math.namespaceURI).to.equal('http://www.w3.org/1998/Math/MathML');
+        expect(math.firstChild.firstChild.namespaceURI).to.equal('http://www.w3.org/1998/Math/MathML');
+        expect(projection.domNode.lastChild.namespaceURI).to.equal('http://www.w3.org/1999/xhtml');
+
+        projection.update(h('p', [
+          h('math', [h('msup', [h('mi', ['x']), h('mn', ['3']), h('mo', ['!'])])]),
+          h('span')
+        ]));
+        expect(math.firstChild.lastChild.namespaceURI).to.equal('http://www.w3.org/1998/Math/MathML');
+      });
+
     });
 
   });
@@ -1,4 +1,4 @@
-import {expect, jsdom} from '../utilities';
+import {expect, jsdom, sinon} from '../utilities';
 import {h, dom} from '../../src/maquette';
 
 describe('dom', function() {
@@ -55,11 +55,44 @@ describe('dom', function() {
       expect(projection.domNode.outerHTML).to.equal('<div id="id" class="class1 class2"></div>');
     });
 
-    it('should give a meaningful error when the root selector is changed', () => {
-      let projection = dom.create(h('div'));
-      expect(() => {
-        projection.update(h('span'));
-      }).to.throw(/may not be changed/);
+    it('should replace the root DOM node when the root selector is changed', () => {
+      let parent = document.createElement('div');
+      let projection = dom.append(parent, h('div', ['a']));
+      let oldDomNode = projection.domNode;
+
+      projection.update(h('span', ['b']));
+      expect(parent.outerHTML).to.equal('<div><span>b</span></div>');
+      expect(projection.domNode).to.equal(parent.firstChild);
+      expect(oldDomNode.parentNode).to.be.null;
+
+      projection.update(h('span', ['c']));
+      expect(parent.outerHTML).to.equal('<div><span>c</span></div>');
+    });
+
+    it('should run the exit and enter animations when the root selector is changed', () => {
+      let exitAnimation = sinon.stub();
+      let enterAnimation = sinon.stub();
+      let parent = document.createElement('div');
+      let projection = dom.append(parent, h('div', { exitAnimation }));
+      let oldDomNode = projection.domNode;
+
+      projection.update(h('span', { enterAnimation }));
+      expect(exitAnimation).to.have.been.calledWith(oldDomNode);
+      expect(enterAnimation).to.have.been.calledWith(projection.domNode);
+      expect(parent.childNodes).to.have.length(2);
+
+      exitAnimation.lastCall.callArg(1);
+      expect(parent.outerHTML).to.equal('<div><span></span></div>');
+    });
+
+    it('should create the DOM nodes using the document of the parent node', () => {
+      let otherDocument = document.implementation.createHTMLDocument('other');
+      let projection = dom.append(otherDocument.body, h('div', ['text', h('span')]));
+      expect(projection.domNode.ownerDocument).to.equal(otherDocument);
+      expect(projection.domNode.firstChild.ownerDocument).to.equal(otherDocument);
+
+      projection.update(h('div', ['updated', h('span')]));
+      expect(projection.domNode.firstChild.ownerDocument).to.equal(otherDocument);
     });
 
   });
@@ -0,0 +1,99 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom} from '../../src/maquette';
+
+describe('dom', function() {
+
+  describe('custom elements', function() {
+
+    jsdom();
+
+    let dispatch = (element: Node, eventName: string) => {
+      let evt = document.createEvent('Event');
+      evt.initEvent(eventName, false, false);
+      element.dispatchEvent(evt);
+    };
+
+    it('registers handlers with an on- prefix for custom events', () => {
+      let handler1 = sinon.stub();
+      let handler2 = sinon.stub();
+      let projection = dom.create(h('my-date-picker', { 'on-value-changed': handler1 }));
+      let picker = projection.domNode;
+
+      dispatch(picker, 'value-changed');
+      expect(handler1).to.have.been.calledOnce;
+      expect(handler1.lastCall.thisValue).to.equal(picker);
+
+      projection.update(h('my-date-picker', { 'on-value-changed': handler2 }));
+      dispatch(picker, 'value-changed');
+      expect(handler1).to.have.been.calledOnce;
+      expect(handler2).to.have.been.calledOnce;
+
+      projection.update(h('my-date-picker', {}));
+      dispatch(picker, 'value-changed');
+      expect(handler2).to.have.been.calledOnce;
+
+      projection.update(h('my-date-picker', { 'on-value-changed': handler1 }));
+      dispatch(picker, 'value-changed');
+      expect(handler1).to.have.been.calledTwice;
+    });
+
+    it('routes custom event handlers through the eventHandlerInterceptor', () => {
+      let handler = sinon.stub();
+      let eventHandlerInterceptor = sinon.spy((propName: string, eventHandler: Function) => eventHandler);
+      let projection = dom.create(h('my-date-picker', { 'on-value-changed': handler }), { eventHandlerInterceptor });
+
+      expect(eventHandlerInterceptor).to.have.been.calledWith('on-value-changed');
+      dispatch(projection.domNode, 'value-changed');
+      expect(handler).to.have.been.calledOnce;
+    });
+
+    it('assigns strings as properties to custom elements in customElementProperties mode', () => {
+      let items = [1, 2];
+      let vnode = h('div', [
+        h('my-date-picker', { format: 'yyyy-MM-dd', items, 'aria-label': 'date', 'xml:lang': 'nl' }),
+        h('input', { placeholder: 'date' })
+      ]);
+      let projection = dom.create(vnode, { customElementProperties: true });
+      let picker = projection.domNode.firstChild as any;
+      let input = projection.domNode.lastChild as HTMLInputElement;
+      expect(picker.format).to.equal('yyyy-MM-dd');
+      expect(picker.items).to.equal(items);
+      expect(picker.hasAttribute('format')).to.be.false;
+      expect(picker.getAttribute('aria-label')).to.equal('date');
+      expect(picker.getAttribute('xml:lang')).to.equal('nl');
+      expect(input.getAttribute('placeholder')).to.equal('date');
+
+      projection.update(h('div', [
+        h('my-date-picker', { format: 'dd-MM-yyyy', items }),
+        h('input', { placeholder: 'date' })
+      ]));
+      expect(picker.format).to.equal('dd-MM-yyyy');
+      expect(picker.hasAttribute('format')).to.be.false;
+      expect(picker.hasAttribute('aria-label')).to.be.false;
+
+      projection.update(h('div', [
+        h('my-date-picker', { items }),
+        h('input', { placeholder: 'date' })
+      ]));
+      expect(picker.format).to.equal('');
+    });
+
+    it('sets strings as attributes on custom elements by default', () => {
+      let projection = dom.create(h('my-date-picker', { format: 'yyyy-MM-dd' }));
+      expect(projection.domNode.getAttribute('format')).to.equal('yyyy-MM-dd');
+    });
+
+    it('can append to a document fragment, like a shadow root', () => {
+      let host = document.createElement('div');
+      let shadowRoot = document.createDocumentFragment();
+      let projection = dom.append(shadowRoot, h('span', ['shadow']));
+      expect(shadowRoot.firstChild).to.equal(projection.domNode);
+
+      projection.update(h('span', ['updated']));
+      host.appendChild(shadowRoot);
+      expect(host.innerHTML).to.equal('<span>updated</span>');
+    });
+
+  });
+
+});
@@ -0,0 +1,99 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom} from '../../src/maquette';
+
+describe('dom', function() {
+
+  describe('devMode', function() {
+
+    jsdom();
+
+    let warn: Sinon.SinonStub;
+
+    beforeEach(() => {
+      warn = sinon.stub(console, 'warn');
+    });
+
+    afterEach(() => {
+      warn.restore();
+    });
+
+    it('adds the path of the VNode to errors', () => {
+      let render = (properties: any) => h('div', [h('ul.list', [h('li', { key: 1 }, [h('span', properties)])])]);
+      expect(() => {
+        dom.create(render({ className: 'special' }), { devMode: true });
+      }).to.throw('Property "className" is not supported, use "class". (at div > ul.list > li[key=1] > span)');
+
+      let projection = dom.create(render({ styles: { height: '20px' } }), { devMode: true });
+      expect(() => {
+        projection.update(render({ styles: { height: 20 } }));
+      }).to.throw('Style values must be strings (at div > ul.list > li[key=1] > span)');
+    });
+
+    it('adds the path to errors about children that are not distinguishable', () => {
+      let projection = dom.create(h('div', [h('section', [h('span')])]), { devMode: true });
+      expect(() => {
+        projection.update(h('div', [h('section', [h('span'), h('span')])]));
+      }).to.throw(/more than one.*\(at div > section\)$/);
+    });
+
+    it('does not add the path without devMode', () => {
+      expect(() => {
+        dom.create(h('div', [h('span', { className: 'special' })]));
+      }).to.throw('Property "className" is not supported, use "class".');
+    });
+
+    it('warns about siblings with the same key', () => {
+      dom.create(h('ul', [h('li', { key: 'a' }), h('li', { key: 'b' }), h('li', { key: 'a' })]), { devMode: true });
+      expect(warn).to.have.been.calledOnce;
+      expect(warn.lastCall.args[0]).to.equal('maquette: There is more than one li[key=a] child, keys must be unique among siblings (at ul)');
+    });
+
+    it('warns about siblings without a key that are added or removed', () => {
+      let projection = dom.create(h('ul', [h('li', ['a']), h('li.last', ['b'])]), { devMode: true });
+      projection.update(h('ul', [h('li', ['a']), h('li', { class: 'new' }, ['c']), h('li.last', ['b'])]));
+      expect(warn).to.have.been.calledOnce;
+      expect(warn.lastCall.args[0]).to.equal(
+        'maquette: A li child was added without a key while it has siblings with the same selector, add unique key properties to lists that change (at ul)');
+
+      projection.update(h('ul', [h('li', { class: 'new' }, ['c']), h('li.last', ['b'])]));
+      expect(warn).to.have.been.calledTwice;
+      expect(warn.lastCall.args[0]).to.match(/^maquette: A li child was removed without a key/);
+    });
+
+    it('warns about siblings without a key before throwing that they are not distinguishable', () => {
+      let projection = dom.create(h('div', [h('span')]), { devMode: true });
+      expect(() => {
+        projection.update(h('div', [h('span'), h('span')]));
+      }).to.throw(/more than one/);
+      expect(warn).to.have.been.calledOnce;
+      expect(warn.lastCall.args[0]).to.match(/^maquette: A span child was added without a key/);
+    });
+
+    it('does not warn about siblings with keys or without devMode', () => {
+      let projection = dom.create(h('ul', [h('li', { key: 1 })]), { devMode: true });
+      projection.update(h('ul', [h('li', { key: 1 }), h('li', { key: 2 })]));
+      let plainProjection = dom.create(h('ul', [h('li')]));
+      plainProjection.update(h('ul', [h('li'), h('li', { class: 'new' })]));
+      expect(warn).to.not.have.been.called;
+    });
+
+    it('warns about VNodes that are modified after they were rendered', () => {
+      let list = h('ul', [h('li', ['a'])]);
+      let projection = dom.create(h('div', [list]), { devMode: true });
+      list.children.push(h('li', ['b']));
+      projection.update(h('div', [list]));
+      expect(warn).to.have.been.calledOnce;
+      expect(warn.lastCall.args[0]).to.match(/modified after it was rendered, create a new VNode instead \(at div > ul\)$/);
+    });
+
+    it('warns about VNodes that are rendered twice', () => {
+      let span = h('span.twice');
+      dom.create(h('div', [span]), { devMode: true });
+      dom.create(h('div', [span]), { devMode: true });
+      expect(warn).to.have.been.calledOnce;
+      expect(warn.lastCall.args[0]).to.match(/rendered more than once, VNodes may only be rendered once \(at div > span.twice\)$/);
+    });
+
+  });
+
+});
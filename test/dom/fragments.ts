@@ -0,0 +1,84 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom, fragment, VNode} from '../../src/maquette';
+import {toHTML} from '../../src/server';
+
+describe('dom', function() {
+
+  describe('fragments', function() {
+
+    jsdom();
+
+    let rows = (items: string[]) => fragment(items.map(item => h('tr', { key: item }, [h('td', [item])])));
+
+    it('renders the children of a fragment without a wrapper element', () => {
+      let projection = dom.create(h('table', [rows(['a', 'b']), h('tr', { key: 'last' })]));
+      expect(projection.domNode.outerHTML).to.equal('<table><tr><td>a</td></tr><tr><td>b</td></tr><tr></tr></table>');
+    });
+
+    it('adds, removes and moves the children of a fragment in the right place', () => {
+      let render = (items: string[]) => h('table', [h('tr', { key: 'first' }), rows(items), h('tr', { key: 'last' })]);
+      let projection = dom.create(render(['a']));
+      let table = projection.domNode;
+      let rowA = table.querySelectorAll('tr')[1];
+
+      projection.update(render(['b', 'a', 'c']));
+      expect(table.outerHTML).to.equal('<table><tr></tr><tr><td>b</td></tr><tr><td>a</td></tr><tr><td>c</td></tr><tr></tr></table>');
+      expect(table.querySelectorAll('tr')[2]).to.equal(rowA);
+
+      projection.update(render([]));
+      expect(table.outerHTML).to.equal('<table><tr></tr><tr></tr></table>');
+
+      projection.update(render(['d']));
+      expect(table.outerHTML).to.equal('<table><tr></tr><tr><td>d</td></tr><tr></tr></table>');
+    });
+
+    it('moves all nodes of a fragment', () => {
+      let render = (order: string[]) => h('ul', order.map(key => fragment({ key }, h('li', [key + '1']), h('li', [key + '2']))));
+      let projection = dom.create(render(['a', 'b']));
+      let list = projection.domNode;
+
+      projection.update(render(['b', 'a']));
+      expect(list.textContent).to.equal('b1b2a1a2');
+    });
+
+    it('removes fragments and runs exit animations of their children', () => {
+      let exitAnimation = sinon.stub();
+      let projection = dom.create(h('div', [fragment({ key: 1 }, h('span', { exitAnimation }), 'text'), h('p')]));
+      let div = projection.domNode;
+
+      projection.update(h('div', [h('p')]));
+      expect(exitAnimation).to.have.been.calledOnce;
+      exitAnimation.lastCall.callArg(1);
+      expect(div.outerHTML).to.equal('<div><p></p></div>');
+    });
+
+    it('can be the root of a projection', () => {
+      let parent = document.createElement('ul');
+      let render = (items: string[]) => fragment(items.map(item => h('li', { key: item }, [item])));
+      let projection = dom.append(parent, render(['a', 'b']));
+      expect(parent.outerHTML).to.equal('<ul><li>a</li><li>b</li></ul>');
+
+      projection.update(render(['b', 'c']));
+      expect(parent.outerHTML).to.equal('<ul><li>b</li><li>c</li></ul>');
+    });
+
+    it('is rendered to HTML and hydrated without a wrapper element', () => {
+      let render = () => h('ul', [h('li', ['first']), fragment(h('li', { key: 'a' }, ['a']), h('li', { key: 'b' }, ['b']))]) as VNode;
+      expect(toHTML(render())).to.equal('<ul><li>first</li><li>a</li><li>b</li></ul>');
+
+      let container = document.createElement('div');
+      container.innerHTML = toHTML(render());
+      let list = container.firstChild as Element;
+      let itemA = list.childNodes[1];
+      let onHydrationMismatch = sinon.stub();
+      let projection = dom.hydrate(list, render(), { onHydrationMismatch });
+      expect(onHydrationMismatch).not.to.have.been.called;
+      expect(list.childNodes[2]).to.equal(itemA);
+
+      projection.update(h('ul', [h('li', ['first']), fragment(h('li', { key: 'a' }, ['a']))]));
+      expect(list.outerHTML).to.equal('<ul><li>first</li><li>a</li></ul>');
+    });
+
+  });
+
+});
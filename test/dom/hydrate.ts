@@ -0,0 +1,100 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom, VNode} from '../../src/maquette';
+import {toHTML} from '../../src/server';
+
+describe('dom', function() {
+
+  describe('hydrate', function() {
+
+    jsdom();
+
+    let renderOnServer = (vnode: VNode) => {
+      let container = document.createElement('div');
+      container.innerHTML = toHTML(vnode);
+      return container.firstChild as Element;
+    };
+
+    it('adopts the existing childnodes instead of creating new ones', () => {
+      let render = () => h('div', [
+        h('span', ['a']),
+        h('ul', [h('li', { key: 1 }, ['1']), h('li', { key: 2 }, ['2'])])
+      ]);
+      let element = renderOnServer(render());
+      let span = element.firstChild;
+      let listItem = element.lastChild.lastChild;
+      let onHydrationMismatch = sinon.stub();
+
+      let projection = dom.hydrate(element, render(), { onHydrationMismatch });
+
+      expect(projection.domNode).to.equal(element);
+      expect(element.outerHTML).to.equal('<div><span>a</span><ul><li>1</li><li>2</li></ul></div>');
+      expect(element.firstChild).to.equal(span);
+      expect(element.lastChild.lastChild).to.equal(listItem);
+      expect(onHydrationMismatch).not.to.have.been.called;
+
+      projection.update(h('div', [
+        h('span', ['b']),
+        h('ul', [h('li', { key: 2 }, ['2'])])
+      ]));
+      expect(element.outerHTML).to.equal('<div><span>b</span><ul><li>2</li></ul></div>');
+      expect(element.lastChild.lastChild).to.equal(listItem);
+    });
+
+    it('splits up text nodes that were joined by the HTML parser', () => {
+      let render = (name: string) => h('p', ['Hello ', '', name, h('br'), '!']);
+      let element = renderOnServer(render('world'));
+      expect(element.childNodes).to.have.length(3);
+      let onHydrationMismatch = sinon.stub();
+
+      let projection = dom.hydrate(element, render('world'), { onHydrationMismatch });
+      expect(element.childNodes).to.have.length(5);
+      expect(onHydrationMismatch).not.to.have.been.called;
+
+      projection.update(render('maquette'));
+      expect(element.outerHTML).to.equal('<p>Hello maquette<br>!</p>');
+    });
+
+    it('ignores the whitespace between elements in pretty-printed HTML', () => {
+      let element = document.createElement('div');
+      element.innerHTML = '<ul>\n  <li>a</li>\n  <li>b</li>\n</ul>';
+      let list = element.firstChild as Element;
+      let listItems = list.querySelectorAll('li');
+      let onHydrationMismatch = sinon.stub();
+
+      dom.hydrate(list, h('ul', [h('li', ['a']), h('li', ['b'])]), { onHydrationMismatch });
+
+      expect(list.outerHTML).to.equal('<ul><li>a</li><li>b</li></ul>');
+      expect(list.firstChild).to.equal(listItems[0]);
+      expect(list.lastChild).to.equal(listItems[1]);
+      expect(onHydrationMismatch).not.to.have.been.called;
+    });
+
+    it('attaches event handlers and invokes afterCreate', () => {
+      let handleClick = sinon.stub();
+      let afterCreate = sinon.stub();
+      let render = () => h('div', [h('button', { onclick: handleClick, afterCreate }, ['click me'])]);
+      let element = renderOnServer(render());
+
+      dom.hydrate(element, render());
+
+      let button = element.firstChild as HTMLButtonElement;
+      expect(afterCreate).to.have.been.calledWith(button);
+      button.onclick({} as any);
+      expect(handleClick).to.have.been.calledOnce;
+    });
+
+    it('reports and repairs mismatches', () => {
+      let element = renderOnServer(h('div', [h('span', ['a']), 'text', h('b'), h('i')]));
+      let span = element.firstChild;
+      let onHydrationMismatch = sinon.stub();
+
+      dom.hydrate(element, h('div', [h('span', ['b']), 'other', h('em')]), { onHydrationMismatch });
+
+      expect(element.outerHTML).to.equal('<div><span>b</span>other<em></em></div>');
+      expect(element.firstChild).to.equal(span);
+      expect(onHydrationMismatch).to.have.callCount(5);
+    });
+
+  });
+
+});
@@ -0,0 +1,55 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom, VNode} from '../../src/maquette';
+import {toHTML} from '../../src/server';
+
+describe('dom', function() {
+
+  describe('memo', function() {
+
+    jsdom();
+
+    let renderItem = (item: { id: number, name: string }, onclick: () => void) =>
+      h('li', { key: item.id, memo: [item], onclick }, [item.name]);
+
+    it('skips the subtree when the memo values are equal', () => {
+      let items = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }];
+      let afterUpdate = sinon.stub();
+      let render = () => h('ul', items.map(item => h('li', { key: item.id, memo: [item.name], afterUpdate }, [item.name])));
+      let projection = dom.create(render());
+      let list = projection.domNode;
+
+      items[0].name = 'c';
+      projection.update(render());
+      expect(list.outerHTML).to.equal('<ul><li>c</li><li>b</li></ul>');
+      expect(afterUpdate).to.have.been.calledOnce;
+      expect(afterUpdate).to.have.been.calledWith(list.firstChild);
+      expect((list.firstChild as any).memo).to.be.undefined;
+    });
+
+    it('hands over the rendered state to the new VNode', () => {
+      let item = { id: 1, name: 'a' };
+      let firstHandler = sinon.stub();
+      let projection = dom.create(h('ul', [renderItem(item, firstHandler)]));
+      let listItem = projection.domNode.firstChild as HTMLElement;
+
+      let skipped = renderItem(item, sinon.stub());
+      projection.update(h('ul', [skipped]));
+      expect(skipped.domNode).to.equal(listItem);
+      listItem.onclick({} as any);
+      expect(firstHandler).to.have.been.calledOnce;
+
+      // The next update is compared to what was rendered before, not to the skipped VNode
+      let renamed = { id: 1, name: 'b' };
+      let reordered = [renderItem({ id: 2, name: 'c' }, undefined), renderItem(renamed, undefined)] as VNode[];
+      projection.update(h('ul', reordered));
+      expect(projection.domNode.outerHTML).to.equal('<ul><li>c</li><li>b</li></ul>');
+      expect(projection.domNode.lastChild).to.equal(listItem);
+    });
+
+    it('is not rendered to HTML', () => {
+      expect(toHTML(h('span', { memo: [1, 'a'] }))).to.equal('<span></span>');
+    });
+
+  });
+
+});
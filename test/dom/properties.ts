@@ -27,14 +27,39 @@ describe('dom', function() {
         expect(div.className).to.equal('b');
       });
 
-      it('allows a constant class to be applied to make JSX workable', () => {
+      it('allows a class to be applied to make JSX workable', () => {
         let projection = dom.create(h('div', { class: 'extra special' }));
         expect(projection.domNode.outerHTML).to.equal('<div class="extra special"></div>');
         projection.update(h('div', { class: 'extra special' }));
-        expect(() => {
-          // updating class is not allowed, use 'classes' for this
-          projection.update(h('div', { class: '' }));
-        }).to.throw(Error);
+        projection.update(h('div', { class: '' }));
+        expect(projection.domNode.outerHTML).to.equal('<div class=""></div>');
+      });
+
+      it('only adds and removes the class tokens that changed', () => {
+        let projection = dom.create(h('div', { class: 'a b' }));
+        let div = projection.domNode as HTMLDivElement;
+        div.classList.add('external');
+
+        projection.update(h('div', { class: 'b  c' }));
+        expect(div.className).to.equal('b external c');
+
+        projection.update(h('div', { class: undefined }));
+        expect(div.className).to.equal('external');
+      });
+
+      it('does not remove classes from the selector or the classes property when class changes', () => {
+        let projection = dom.create(h('div.fixed', { class: 'fixed a', classes: { b: true } }));
+        let div = projection.domNode as HTMLDivElement;
+        expect(div.className).to.equal('fixed a b');
+
+        projection.update(h('div.fixed', { class: 'b', classes: { b: true } }));
+        expect(div.className).to.equal('fixed b');
+
+        projection.update(h('div.fixed', { class: 'b', classes: { b: false } }));
+        expect(div.className).to.equal('fixed b');
+
+        projection.update(h('div.fixed', { class: '', classes: { b: false } }));
+        expect(div.className).to.equal('fixed');
       });
 
       it('allows classes and class to be combined', () => {
@@ -61,7 +86,7 @@ describe('dom', function() {
       expect(link.getAttribute('href')).to.equal('#2');
 
       projection.update(h('a', { href: undefined }));
-      expect(link.getAttribute('href')).to.equal('');
+      expect(link.hasAttribute('href')).to.be.false;
     });
 
     it('can add an attribute that was initially undefined', () => {
@@ -73,6 +98,72 @@ describe('dom', function() {
       expect(link.getAttribute('href')).to.equal('#2');
     });
 
+    it('removes attributes and properties that are no longer present', () => {
+      let projection = dom.create(h('button', { 'aria-hidden': 'true', title: 'tip', disabled: true, value: 'v' }));
+      let button = projection.domNode as HTMLButtonElement;
+      expect(button.getAttribute('aria-hidden')).to.equal('true');
+      expect(button.disabled).to.be.true;
+
+      projection.update(h('button', {}));
+      expect(button.hasAttribute('aria-hidden')).to.be.false;
+      expect(button.hasAttribute('title')).to.be.false;
+      expect(button.disabled).to.be.false;
+      expect(button.value).to.equal('');
+
+      projection.update(h('button', { title: 'tip' }));
+      expect(button.getAttribute('title')).to.equal('tip');
+    });
+
+    it('removes attributes that are set to undefined or null', () => {
+      let projection = dom.create(h('button', { disabled: 'disabled', 'aria-label': 'close', title: 'tip' }));
+      let button = projection.domNode as HTMLButtonElement;
+      expect(button.disabled).to.be.true;
+
+      projection.update(h('button', { disabled: undefined, 'aria-label': null, title: 'tip' }));
+      expect(button.outerHTML).to.equal('<button title="tip"></button>');
+      expect(button.disabled).to.be.false;
+
+      projection.update(h('button', { disabled: 'disabled', 'aria-label': 'close', title: 'tip' }));
+      expect(button.getAttribute('disabled')).to.equal('disabled');
+      expect(button.getAttribute('aria-label')).to.equal('close');
+    });
+
+    it('resets numeric properties to their default when they are removed', () => {
+      let projection = dom.create(h('input', { tabIndex: 2, maxLength: 5 }));
+      let input = projection.domNode as HTMLInputElement;
+      expect(input.tabIndex).to.equal(2);
+      expect(input.maxLength).to.equal(5);
+
+      projection.update(h('input', {}));
+      expect(input.hasAttribute('tabindex')).to.be.false;
+      expect(input.hasAttribute('maxlength')).to.be.false;
+
+      projection.update(h('input', { tabIndex: 3, maxLength: 6 }));
+      expect(input.tabIndex).to.equal(3);
+      projection.update(h('input', { tabIndex: null, maxLength: undefined }));
+      expect(input.outerHTML).to.equal('<input>');
+    });
+
+    it('removes classes and styles that are no longer present', () => {
+      let projection = dom.create(h('div', { classes: { a: true, b: true }, styles: { height: '20px', width: '10px' } }));
+      let div = projection.domNode as HTMLDivElement;
+
+      projection.update(h('div', { classes: { a: true }, styles: { height: '20px' } }));
+      expect(div.outerHTML).to.equal('<div class="a" style="height: 20px;"></div>');
+
+      projection.update(h('div', {}));
+      expect(div.outerHTML).to.equal('<div class="" style=""></div>');
+    });
+
+    it('removes event handlers that are no longer present', () => {
+      let projection = dom.create(h('button', { onclick: () => undefined as void, afterUpdate: () => undefined as void }));
+      let button = projection.domNode as HTMLButtonElement;
+      expect(button.onclick).to.exist;
+
+      projection.update(h('button', {}));
+      expect(button.onclick).to.not.exist;
+    });
+
     it('updates properties', () => {
       let projection = dom.create(h('a', { href: '#1', tabIndex: 1 }));
       let link = projection.domNode as HTMLLinkElement;
@@ -82,7 +173,43 @@ describe('dom', function() {
       expect(link.tabIndex).to.equal(2);
 
       projection.update(h('a', { href: '#1', tabIndex: undefined }));
-      expect(link.tabIndex).to.equal(0);
+      expect(link.hasAttribute('tabindex')).to.be.false;
+    });
+
+    describe('attrs', () => {
+
+      it('always applies attrs as attributes', () => {
+        let projection = dom.create(h('td', { attrs: { 'aria-hidden': true, colspan: 2, title: undefined } }));
+        let cell = projection.domNode as HTMLTableCellElement;
+        expect(cell.outerHTML).to.equal('<td aria-hidden="true" colspan="2"></td>');
+
+        projection.update(h('td', { attrs: { 'aria-hidden': false, title: 'tip' } }));
+        expect(cell.outerHTML).to.equal('<td aria-hidden="false" title="tip"></td>');
+
+        projection.update(h('td', { attrs: { 'aria-hidden': null } }));
+        expect(cell.outerHTML).to.equal('<td></td>');
+
+        projection.update(h('td', {}));
+        expect(cell.outerHTML).to.equal('<td></td>');
+      });
+
+    });
+
+    describe('props', () => {
+
+      it('always assigns props as properties', () => {
+        let items = [1, 2];
+        let projection = dom.create(h('my-element', { props: { label: 'text', items } }));
+        let element = projection.domNode as any;
+        expect(element.hasAttribute('label')).to.be.false;
+        expect(element.label).to.equal('text');
+        expect(element.items).to.equal(items);
+
+        projection.update(h('my-element', { props: { label: 'other' } }));
+        expect(element.label).to.equal('other');
+        expect(element.items).to.be.undefined;
+      });
+
     });
 
     it('updates innerHTML', () => {
@@ -105,6 +232,65 @@ describe('dom', function() {
       projection.update(h('div', { scrollTop: 1 }));
     });
 
+    describe('event listeners', () => {
+
+      let dispatch = (target: Node, eventName: string) => {
+        let evt = document.createEvent('Event');
+        evt.initEvent(eventName, true, true);
+        target.dispatchEvent(evt);
+        return evt;
+      };
+
+      it('registers listeners for events that have no on... property', () => {
+        let listener = sinon.stub();
+        let projection = dom.create(h('div', { on: { 'value-changed': listener } }), { eventHandlerInterceptor: noopEventHandlerInterceptor });
+        let div = projection.domNode;
+        let evt = dispatch(div, 'value-changed');
+        expect(listener).to.have.been.calledOn(div).calledWithExactly(evt);
+      });
+
+      it('invokes the latest listener and removes listeners that are no longer present', () => {
+        let listener1 = sinon.stub();
+        let listener2 = sinon.stub();
+        let projection = dom.create(h('div', { on: { custom: listener1 } }));
+        let div = projection.domNode;
+
+        projection.update(h('div', { on: { custom: listener2 } }));
+        dispatch(div, 'custom');
+        expect(listener1).not.to.have.been.called;
+        expect(listener2).to.have.been.calledOnce;
+
+        projection.update(h('div', { on: {} }));
+        dispatch(div, 'custom');
+        expect(listener2).to.have.been.calledOnce;
+
+        projection.update(h('div', { on: { custom: listener1 } }));
+        dispatch(div, 'custom');
+        expect(listener1).to.have.been.calledOnce;
+
+        projection.update(h('div', {}));
+        dispatch(div, 'custom');
+        expect(listener1).to.have.been.calledOnce;
+      });
+
+      it('supports the capture and once options', () => {
+        let calls = [] as string[];
+        let render = (capture: boolean) => h('div', { on: { custom: { listener: () => { calls.push('parent'); }, capture } } }, [
+          h('span', { on: { custom: { listener: () => { calls.push('child'); }, once: true } } })
+        ]);
+        let projection = dom.create(render(true));
+        let span = projection.domNode.firstChild;
+
+        dispatch(span, 'custom');
+        expect(calls).to.deep.equal(['parent', 'child']);
+
+        projection.update(render(false));
+        dispatch(span, 'custom');
+        expect(calls).to.deep.equal(['parent', 'child', 'parent']);
+      });
+
+    });
+
     describe('event handlers', () => {
 
       it('allows one to correct the value while being typed', () => {
@@ -162,13 +348,41 @@ describe('dom', function() {
         projection.update(renderFunction());
       });
 
-      it('does not allow event handlers to be updated, for performance reasons', () => {
-        let handler1 = () => undefined as void;
-        let handler2 = () => undefined as void;
-        let projection = dom.create(h('button', { onclick: handler1 }));
-        expect(() => {
-          projection.update(h('button', { onclick: handler2 }));
-        }).to.throw();
+      it('allows event handlers to be updated', () => {
+        let handler1 = sinon.stub();
+        let handler2 = sinon.stub();
+        let projection = dom.create(h('button', { onclick: handler1 }), { eventHandlerInterceptor: noopEventHandlerInterceptor });
+        let button = projection.domNode as HTMLButtonElement;
+        let clickHandler = button.onclick;
+
+        projection.update(h('button', { onclick: handler2 }));
+        expect(button.onclick).to.equal(clickHandler);
+        button.onclick({} as any);
+        expect(handler1).not.to.have.been.called;
+        expect(handler2).to.have.been.calledOn(button);
+      });
+
+      it('allows event handlers to be added and removed', () => {
+        let handler = sinon.stub();
+        let projection = dom.create(h('button', { onclick: undefined }));
+        let button = projection.domNode as HTMLButtonElement;
+        expect(button.onclick).to.not.exist;
+
+        projection.update(h('button', { onclick: handler }));
+        button.onclick({} as any);
+        expect(handler).to.have.been.calledOnce;
+
+        projection.update(h('button', { onclick: undefined }));
+        expect(button.onclick).to.not.exist;
+      });
+
+      it('allows other functions to be updated', () => {
+        let afterUpdate = sinon.stub();
+        let updateAnimation = sinon.stub();
+        let projection = dom.create(h('div', { afterUpdate: () => undefined as void, updateAnimation }));
+        projection.update(h('div', { afterUpdate, updateAnimation }));
+        expect(afterUpdate).to.have.been.calledOnce;
+        expect(updateAnimation).not.to.have.been.called;
       });
 
     });
@@ -0,0 +1,77 @@
+import {expect, jsdom} from '../utilities';
+import {h, dom} from '../../src/maquette';
+
+describe('dom', function() {
+
+  describe('selectors', function() {
+
+    jsdom();
+
+    let render = (selector: string) => dom.create(h(selector)).domNode.outerHTML;
+
+    it('creates the element for the tagname', function() {
+      expect(render('div')).to.equal('<div></div>');
+      expect(render('h1')).to.equal('<h1></h1>');
+      expect(render('my-element')).to.equal('<my-element></my-element>');
+    });
+
+    it('adds the css classes and the id', function() {
+      expect(render('div.a')).to.equal('<div class="a"></div>');
+      expect(render('div.a.b')).to.equal('<div class="a b"></div>');
+      expect(render('div#id')).to.equal('<div id="id"></div>');
+      expect(render('div.a#id.b')).to.equal('<div class="a b" id="id"></div>');
+      expect(render('div#id.a')).to.equal('<div id="id" class="a"></div>');
+      expect(render('div.is-active_1')).to.equal('<div class="is-active_1"></div>');
+    });
+
+    it('uses div when the selector starts with a css class or id', function() {
+      expect(h('.a').vnodeSelector).to.equal('div.a');
+      expect(render('.a.b')).to.equal('<div class="a b"></div>');
+      expect(render('#id.a')).to.equal('<div id="id" class="a"></div>');
+    });
+
+    it('can update elements created with a default tagname', function() {
+      let projection = dom.create(h('.a', ['1']));
+      projection.update(h('div.a', ['2']));
+      expect(projection.domNode.outerHTML).to.equal('<div class="a">2</div>');
+    });
+
+    it('rejects selectors that are not strings', function() {
+      expect(() => h(5 as any)).to.throw('The selector passed to h() must be a string, but it was number');
+      expect(() => h(undefined)).to.throw(/must be a string, but it was undefined/);
+    });
+
+    it('rejects empty css classes and ids', function() {
+      expect(() => h('div..a')).to.throw(/"div\.\.a".*a css class or id may not be empty/);
+      expect(() => h('div.')).to.throw(/may not be empty/);
+      expect(() => h('div#')).to.throw(/may not be empty/);
+      expect(() => h('.#id')).to.throw(/may not be empty/);
+    });
+
+    it('rejects other malformed selectors', function() {
+      expect(() => h('')).to.throw(/the selector may not be empty/);
+      expect(() => h('div span')).to.throw(/may not contain whitespace/);
+      expect(() => h('div#a#b')).to.throw(/may only contain one id/);
+      expect(() => h('1div')).to.throw(/"1div" is not a valid tagname/);
+      expect(() => h('div[title]')).to.throw(/"div\[title\]" is not a valid tagname/);
+    });
+
+    it('gives the same results for selectors it has seen before', function() {
+      expect(h('#seen.before').vnodeSelector).to.equal('div#seen.before');
+      expect(h('#seen.before').vnodeSelector).to.equal('div#seen.before');
+      expect(() => h('div..seen')).to.throw(/may not be empty/);
+      expect(() => h('div..seen')).to.throw(/may not be empty/);
+      expect(h('constructor').vnodeSelector).to.equal('constructor');
+    });
+
+    it('keeps giving the same results when many different selectors are used', function() {
+      for (let i = 0; i < 2500; i++) {
+        expect(h('#item-' + i).vnodeSelector).to.equal('div#item-' + i);
+      }
+      expect(h('#item-0').vnodeSelector).to.equal('div#item-0');
+      expect(h('#item-2499').vnodeSelector).to.equal('div#item-2499');
+    });
+
+  });
+
+});
@@ -0,0 +1,73 @@
+import {expect, jsdom, sinon} from '../utilities';
+import {h, dom} from '../../src/maquette';
+import {toHTML} from '../../src/server';
+
+describe('dom', function() {
+
+  describe('attachShadow', function() {
+
+    jsdom();
+
+    // The DOM implementation used in the tests does not support shadow DOM, a document fragment takes the place of the shadow root
+    let createHost = () => {
+      let host = document.createElement('my-widget');
+      let shadowRoot = document.createDocumentFragment();
+      (host as any).attachShadow = sinon.stub().returns(shadowRoot);
+      return { host, shadowRoot };
+    };
+
+    let toMarkup = (shadowRoot: Node) => {
+      let container = document.createElement('div');
+      container.appendChild(shadowRoot.cloneNode(true));
+      return container.innerHTML;
+    };
+
+    it('projects into a new open shadow root', () => {
+      let {host, shadowRoot} = createHost();
+      let projection = dom.attachShadow(host, h('div.widget', ['hello']));
+
+      expect((host as any).attachShadow).to.have.been.calledWith({ mode: 'open' });
+      expect(projection.domNode.parentNode).to.equal(shadowRoot);
+      expect(host.childNodes).to.have.length(0);
+      expect(toMarkup(shadowRoot)).to.equal('<div class="widget">hello</div>');
+
+      projection.update(h('div.widget', ['world']));
+      expect(toMarkup(shadowRoot)).to.equal('<div class="widget">world</div>');
+    });
+
+    it('uses the shadow root that is already attached', () => {
+      let {host, shadowRoot} = createHost();
+      (host as any).shadowRoot = shadowRoot;
+      dom.attachShadow(host, h('span'));
+      expect((host as any).attachShadow).not.to.have.been.called;
+      expect(toMarkup(shadowRoot)).to.equal('<span></span>');
+    });
+
+    it('keeps the style sheets in sync', () => {
+      let {host, shadowRoot} = createHost();
+      let render = (styleSheets: string[]) => h('div', { styleSheets }, ['content']);
+      let projection = dom.attachShadow(host, render(['div { color: red; }']));
+      expect(toMarkup(shadowRoot)).to.equal('<style>div { color: red; }</style><div>content</div>');
+      let firstStyle = shadowRoot.firstChild;
+
+      projection.update(render(['div { color: blue; }', 'p { margin: 0; }']));
+      expect(toMarkup(shadowRoot)).to.equal('<style>div { color: blue; }</style><style>p { margin: 0; }</style><div>content</div>');
+      expect(shadowRoot.firstChild).to.equal(firstStyle);
+
+      projection.update(render(['p { margin: 0; }']));
+      expect(toMarkup(shadowRoot)).to.equal('<style>p { margin: 0; }</style><div>content</div>');
+      expect(shadowRoot.firstChild).to.equal(firstStyle);
+
+      projection.update(render(undefined));
+      expect(toMarkup(shadowRoot)).to.equal('<div>content</div>');
+    });
+
+    it('does not render the style sheets as attributes', () => {
+      let projection = dom.create(h('div', { styleSheets: ['div { color: red; }'] }));
+      expect(projection.domNode.outerHTML).to.equal('<div></div>');
+      expect(toHTML(h('div', { styleSheets: ['div { color: red; }'] }))).to.equal('<div></div>');
+    });
+
+  });
+
+});
@@ -79,6 +79,36 @@ describe('h', function() {
     expect(h('div', 1 as any)).to.deep.equal({ vnodeSelector: 'div', properties: undefined, text: undefined, children: [toTextVNode('1')], domNode: null });
   });
 
+  it('types the properties for specific tagnames', function() {
+    let values: string[] = [];
+    let vnode = h('input', {
+      type: 'text',
+      checked: false,
+      oninput: (evt) => {
+        values.push(evt.currentTarget.value);
+      }
+    });
+    vnode.properties['oninput']({ currentTarget: { value: 'typed' } } as any);
+    expect(values).to.deep.equal(['typed']);
+
+    let created: HTMLAnchorElement[] = [];
+    h('a', { href: '#top', afterCreate: (element) => { created.push(element); } }, ['top']);
+    h('a.button', { href: '#top' }, ['top']);
+  });
+
+  it('accepts properties that are not listed for specific tagnames', function() {
+    let clicked: HTMLButtonElement[] = [];
+    let vnodes: VNode[] = [
+      // Does not compile when the event handler no longer receives an HTMLButtonElement as currentTarget
+      h('button', { role: 'tab', 'aria-selected': 'true', onclick: (evt) => { clicked.push(evt.currentTarget); } }),
+      h('input', { 'data-id': '1' }),
+      h('img', { height: '20' })
+    ];
+    expect(vnodes.map(vnode => vnode.vnodeSelector)).to.deep.equal(['button', 'input', 'img']);
+    vnodes[0].properties['onclick']({ currentTarget: 'button' } as any);
+    expect(clicked).to.deep.equal(['button']);
+  });
+
   it('Validates the first argument to be a string', () => {
     expect(() => {
       h(5 as any);
@@ -0,0 +1,45 @@
+import {expect} from './utilities';
+import {h, jsx, VNode} from '../src/maquette';
+
+// The calls below are what the Typescript compiler generates for TSX when React.createElement is mapped to jsx
+describe('jsx', function() {
+
+  it('produces the same VNodes as h', function() {
+    let key = {};
+    // <div class="x" key={key}>text</div>
+    expect(jsx('div', { class: 'x', key: key }, 'text')).to.deep.equal(h('div', { class: 'x', key: key }, 'text'));
+    // <br />
+    expect(jsx('br', null)).to.deep.equal(h('br'));
+    // <p>{'a'}<b /></p>
+    expect(jsx('p', null, 'a', jsx('b', null))).to.deep.equal(h('p', 'a', h('b')));
+    // <ul>{items.map(item => <li key={item}>{item}</li>)}</ul>
+    let items = ['1', '2'];
+    expect(jsx('ul', null, items.map(item => jsx('li', { key: item }, item))))
+      .to.deep.equal(h('ul', [h('li', { key: '1' }, '1'), h('li', { key: '2' }, '2')]));
+  });
+
+  it('supports function components', function() {
+    let Greeting = (properties: { name: string }, children: VNode[]) => h('p', ['Hello ', properties.name, children]);
+    // <Greeting name="world"><b>!</b>{null}</Greeting>
+    let vnode = jsx(Greeting, { name: 'world' }, jsx('b', null, '!'), null);
+    expect(vnode).to.deep.equal(h('p', ['Hello ', 'world', h('b', '!')]));
+
+    let Empty = (properties: Object, children: VNode[]) => {
+      expect(properties).to.deep.equal({});
+      expect(children).to.deep.equal([]);
+      return h('span');
+    };
+    // <Empty />
+    expect(jsx(Empty, null)).to.deep.equal(h('span'));
+  });
+
+  it('provides the JSX namespace typings', function() {
+    let element: JSX.Element = jsx('div', null);
+    let intrinsicElements = {} as JSX.IntrinsicElements;
+    intrinsicElements.input = { type: 'checkbox', checked: true, onclick: (evt) => evt.currentTarget.checked };
+    intrinsicElements['my-element'] = { props: { value: {} } };
+    expect(element.vnodeSelector).to.equal('div');
+    expect(intrinsicElements.input.checked).to.be.true;
+  });
+
+});
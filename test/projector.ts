@@ -1,5 +1,6 @@
 import {expect, sinon, jsdom} from './utilities';
-import {createProjector, h, Component} from '../src/maquette';
+import {createProjector, createManualScheduler, schedulers, h, Component, VNode} from '../src/maquette';
+import {toHTML} from '../src/server';
 
 describe('Projector', () => {
 
@@ -105,6 +106,114 @@ describe('Projector', () => {
     expect(global.cancelAnimationFrame).to.have.been.calledOnce;
   });
 
+  it('can render synchronously', () => {
+    let projector = createProjector({});
+    let text = 'a';
+    let parentElement = document.createElement('div');
+    projector.append(parentElement, () => h('span', [text]));
+
+    text = 'b';
+    projector.scheduleRender();
+    projector.renderNow();
+    expect(parentElement.innerHTML).to.equal('<span>b</span>');
+    expect(global.cancelAnimationFrame).to.have.been.calledWith(5);
+
+    text = 'c';
+    projector.stop();
+    projector.renderNow();
+    expect(parentElement.innerHTML).to.equal('<span>b</span>');
+  });
+
+  it('uses the namespace of the parent when replacing an element', () => {
+    let svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    let circle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+    svg.appendChild(circle);
+    let projector = createProjector({});
+    let width = '10';
+    projector.replace(circle, () => h('rect', { width: width }, [h('title', ['box'])]));
+    let rect = svg.firstChild as Element;
+    expect(svg.childNodes.length).to.equal(1);
+    expect(rect.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+    expect(rect.firstChild.namespaceURI).to.equal('http://www.w3.org/2000/svg');
+    expect(rect.getAttribute('width')).to.equal('10');
+
+    width = '20';
+    projector.renderNow();
+    expect(svg.firstChild).to.equal(rect);
+    expect(rect.getAttribute('width')).to.equal('20');
+  });
+
+  it('invokes callbacks after the next render has completed', () => {
+    let projector = createProjector({});
+    let parentElement = document.createElement('div');
+    let text = 'a';
+    projector.append(parentElement, () => h('span', [text]));
+    let immediateCallback = sinon.stub();
+    projector.whenRendered(immediateCallback);
+    expect(immediateCallback).to.have.been.calledOnce;
+
+    text = 'b';
+    projector.scheduleRender();
+    let callback = sinon.spy(() => {
+      expect(parentElement.innerHTML).to.equal('<span>b</span>');
+    });
+    projector.whenRendered(callback);
+    expect(callback).not.to.have.been.called;
+
+    global.requestAnimationFrame.lastCall.callArg(0);
+    expect(callback).to.have.been.calledOnce;
+    projector.renderNow();
+    expect(callback).to.have.been.calledOnce;
+  });
+
+  describe('scheduler', () => {
+
+    it('can be controlled manually', () => {
+      let scheduler = createManualScheduler();
+      let projector = createProjector({ scheduler });
+      let renderFunction = sinon.spy(() => h('div'));
+      projector.append(document.createElement('div'), renderFunction);
+
+      projector.scheduleRender();
+      projector.scheduleRender();
+      expect(renderFunction).to.have.been.calledOnce;
+      scheduler.flush();
+      expect(renderFunction).to.have.been.calledTwice;
+      scheduler.flush();
+      expect(renderFunction).to.have.been.calledTwice;
+
+      projector.scheduleRender();
+      projector.stop();
+      scheduler.flush();
+      expect(renderFunction).to.have.been.calledTwice;
+      expect(global.requestAnimationFrame).not.to.have.been.called;
+    });
+
+    it('can render using setTimeout', (done) => {
+      let projector = createProjector({ scheduler: schedulers.timeout });
+      let renderFunction = sinon.spy(() => h('div'));
+      projector.append(document.createElement('div'), renderFunction);
+      projector.scheduleRender();
+      projector.whenRendered(() => {
+        expect(renderFunction).to.have.been.calledTwice;
+        done();
+      });
+    });
+
+    it('can render using a microtask', (done) => {
+      let projector = createProjector({ scheduler: schedulers.microtask });
+      let renderFunction = sinon.spy(() => h('div'));
+      projector.append(document.createElement('div'), renderFunction);
+      projector.scheduleRender();
+      let checkRendered = () => {
+        expect(renderFunction).to.have.been.calledTwice;
+        done();
+      };
+      setTimeout(checkRendered, 0);
+    });
+
+  });
+
   it('Stops when an error during rendering is encountered', () => {
     let projector = createProjector({});
     let parentElement = { appendChild: sinon.stub() };
@@ -130,6 +239,94 @@ describe('Projector', () => {
     expect(renderFunction).to.be.calledOnce;
   });
 
+  it('keeps rendering the other projections when onRenderError is provided', () => {
+    let failing = true;
+    let onRenderError = sinon.spy((error: any) => h('p', [error.message]));
+    let projector = createProjector({ onRenderError });
+    let parentElement = document.createElement('div');
+    let failingRenderFunction = () => {
+      if (failing) {
+        throw new Error('oops');
+      }
+      return h('span', ['recovered']);
+    };
+    let text = 'a';
+    projector.append(parentElement, () => h('div', ['ok']));
+    projector.append(parentElement, failingRenderFunction);
+    projector.append(parentElement, () => h('div', [text]));
+    expect(parentElement.innerHTML).to.equal('<div>ok</div><p>oops</p><div>a</div>');
+
+    text = 'b';
+    projector.scheduleRender();
+    global.requestAnimationFrame.lastCall.callArg(0);
+    expect(onRenderError).to.have.been.calledTwice;
+    expect(onRenderError.lastCall.args[1]).to.equal(failingRenderFunction);
+    expect(parentElement.innerHTML).to.equal('<div>ok</div><p>oops</p><div>b</div>');
+
+    failing = false;
+    projector.scheduleRender();
+    global.requestAnimationFrame.lastCall.callArg(0);
+    expect(parentElement.innerHTML).to.equal('<div>ok</div><span>recovered</span><div>b</div>');
+  });
+
+  it('rebuilds a projection after an error while updating the DOM', () => {
+    let onRenderError = sinon.spy(() => undefined as VNode);
+    let projector = createProjector({ onRenderError });
+    let parentElement = document.createElement('div');
+    let items = [{ key: 'a', text: 'a1' }];
+    let height: any = '20px';
+    let renderFunction = () => h('ul', items.map(item => h('li', { key: item.key, styles: { height } }, [item.text])));
+    projector.append(parentElement, renderFunction);
+    let list = parentElement.firstChild;
+
+    items = [{ key: 'new', text: 'new' }, { key: 'a', text: 'a1' }];
+    height = 20; // Style values must be strings, so updating the DOM fails halfway
+    projector.renderNow();
+    expect(onRenderError).to.have.been.calledOnce;
+
+    // The next render is not diffed against the VNodes of the failed render
+    projector.renderNow();
+    expect(onRenderError).to.have.been.calledTwice;
+    expect(parentElement.childNodes).to.have.length(1);
+
+    items = [{ key: 'a', text: 'a2' }, { key: 'z', text: 'z' }];
+    height = '20px';
+    projector.renderNow();
+    expect(onRenderError).to.have.been.calledTwice;
+    expect(parentElement.innerHTML).to.equal('<ul><li style="height: 20px;">a2</li><li style="height: 20px;">z</li></ul>');
+    expect(parentElement.firstChild).not.to.equal(list);
+
+    items = [{ key: 'z', text: 'z' }];
+    projector.renderNow();
+    expect(parentElement.innerHTML).to.equal('<ul><li style="height: 20px;">z</li></ul>');
+  });
+
+  it('reports the duration and DOM mutations of every render', () => {
+    let beforeRender = sinon.stub();
+    let afterRender = sinon.stub();
+    let projector = createProjector({ beforeRender, afterRender });
+    let parentElement = document.createElement('div');
+    let items = ['a', 'b'];
+    let renderFunction = () => h('ul', { title: items.join() }, items.map(item => h('li', { key: item }, [item])));
+    projector.append(parentElement, renderFunction);
+    projector.append(parentElement, () => h('div'));
+
+    items = ['b', 'c', 'a'];
+    projector.scheduleRender();
+    global.requestAnimationFrame.lastCall.callArg(0);
+
+    expect(beforeRender).to.have.been.calledBefore(afterRender);
+    expect(afterRender).to.have.been.calledOnce;
+    let report = afterRender.lastCall.args[0];
+    expect(report.duration).to.be.at.least(0);
+    expect(report.projections).to.have.length(2);
+    expect(report.projections[0].renderMaquetteFunction).to.equal(renderFunction);
+    expect(report.projections[0].mutations).to.deep.equal({
+      nodesCreated: 1, nodesRemoved: 0, nodesMoved: 1, nodesUpdated: 1, attributesChanged: 1, textReplaced: 0
+    });
+    expect(report.projections[1].mutations.nodesUpdated).to.equal(0);
+  });
+
   it('schedules a render when event handlers are called', () => {
     let projector = createProjector({});
     let parentElement = { appendChild: sinon.stub() };
@@ -149,6 +346,148 @@ describe('Projector', () => {
 
   });
 
+  it('schedules a render when event listeners are called', () => {
+    let projector = createProjector({});
+    let parentElement = document.createElement('div');
+    let listener = sinon.stub();
+    projector.append(parentElement, () => h('div', { on: { 'value-changed': { listener, passive: true } } }));
+
+    let evt = document.createEvent('Event');
+    evt.initEvent('value-changed', false, false);
+    parentElement.firstChild.dispatchEvent(evt);
+
+    expect(listener).to.be.calledOnce;
+    expect(global.requestAnimationFrame).to.be.calledOnce;
+  });
+
+  it('renders into a shadow root and schedules a render when custom event handlers are called', () => {
+    let projector = createProjector({});
+    let shadowRoot = document.createDocumentFragment();
+    let handler = sinon.stub();
+    projector.append(shadowRoot, () => h('my-date-picker', { 'on-value-changed': handler }));
+
+    let evt = document.createEvent('Event');
+    evt.initEvent('value-changed', false, false);
+    shadowRoot.firstChild.dispatchEvent(evt);
+
+    expect(handler).to.be.calledOnce;
+    expect(global.requestAnimationFrame).to.be.calledOnce;
+  });
+
+  it('renders into a shadow root with style sheets', () => {
+    let projector = createProjector({});
+    let host = document.createElement('my-widget');
+    let shadowRoot = document.createDocumentFragment();
+    (host as any).attachShadow = () => shadowRoot;
+    let color = 'red';
+    projector.attachShadow(host, () => h('div', { styleSheets: ['div { color: ' + color + '; }'] }));
+    expect(shadowRoot.firstChild.textContent).to.equal('div { color: red; }');
+
+    color = 'blue';
+    projector.renderNow();
+    expect(shadowRoot.firstChild.textContent).to.equal('div { color: blue; }');
+    expect(shadowRoot.childNodes).to.have.length(2);
+  });
+
+  describe('eventDelegation', () => {
+
+    let click = (target: Node) => {
+      let evt = document.createEvent('Event');
+      evt.initEvent('click', true, true);
+      target.dispatchEvent(evt);
+      return evt;
+    };
+
+    it('handles events using a single listener on the root of the projection', () => {
+      let projector = createProjector({ eventDelegation: true });
+      let parentElement = document.createElement('div');
+      let clicked = sinon.stub();
+      let items = ['a', 'b', 'c'];
+      let renderFunction = () => h('ul', items.map(item => h('li', { key: item, onclick: () => clicked(item) }, [h('span', [item])])));
+      projector.append(parentElement, renderFunction);
+
+      let list = parentElement.firstChild as HTMLElement;
+      let secondItem = list.childNodes[1] as HTMLElement;
+      expect(secondItem.onclick).to.not.exist;
+
+      click(secondItem.firstChild);
+      expect(clicked).to.be.calledOnce.calledWithExactly('b');
+      expect(global.requestAnimationFrame).to.be.calledOnce;
+    });
+
+    it('sets currentTarget to the DOM node of the handler', () => {
+      let projector = createProjector({ eventDelegation: true });
+      let parentElement = document.createElement('div');
+      let currentTargets: EventTarget[] = [];
+      let handleClick = (evt: Event) => {
+        currentTargets.push(evt.currentTarget);
+      };
+      projector.append(parentElement, () => h('div', { onclick: handleClick }, [h('button', { onclick: handleClick }, [h('span')])]));
+
+      let root = parentElement.firstChild;
+      let button = root.firstChild;
+      let evt = click(button.firstChild);
+      expect(currentTargets).to.have.length(2);
+      expect(currentTargets[0]).to.equal(button);
+      expect(currentTargets[1]).to.equal(root);
+      expect(evt.hasOwnProperty('currentTarget')).to.be.false;
+    });
+
+    it('invokes handlers with "this" set to the bind property and honors stopPropagation and returning false', () => {
+      let projector = createProjector({ eventDelegation: true });
+      let parentElement = document.createElement('div');
+      let component = {};
+      let handleOuterClick = sinon.stub();
+      let handleInnerClick = sinon.spy((evt: Event) => {
+        evt.stopPropagation();
+        return false;
+      });
+      let handleKeyDown = sinon.stub();
+      let listenToKeys = false;
+      let renderFunction = () => h('div', { onclick: handleOuterClick, onkeydown: listenToKeys ? handleKeyDown : undefined }, [
+        h('button', { onclick: handleInnerClick, bind: component })
+      ]);
+      projector.append(parentElement, renderFunction);
+      let div = parentElement.firstChild as HTMLElement;
+
+      let evt = click(div.firstChild);
+      expect(handleInnerClick).to.be.calledOn(component);
+      expect(evt.defaultPrevented).to.be.true;
+      expect(handleOuterClick).not.to.be.called;
+
+      click(div);
+      expect(handleOuterClick).to.be.calledOn(div);
+
+      // Event types that are introduced later on are handled as well
+      listenToKeys = true;
+      global.requestAnimationFrame.callArg(0);
+      let keyEvent = document.createEvent('Event');
+      keyEvent.initEvent('keydown', true, true);
+      div.dispatchEvent(keyEvent);
+      expect(handleKeyDown).to.be.calledOnce;
+    });
+
+  });
+
+  it('invokes the event handler from the latest render', () => {
+    let projector = createProjector({});
+    let parentElement = { appendChild: sinon.stub() };
+    let clicked = sinon.stub();
+    let items = ['a', 'b'];
+    let renderFunction = () => h('ul', items.map(item => h('li', { key: item, onclick: () => clicked(item) })));
+    projector.append(parentElement as any, renderFunction);
+
+    items = ['c', 'b'];
+    global.requestAnimationFrame.reset();
+    projector.scheduleRender();
+    global.requestAnimationFrame.callArg(0);
+
+    let list = parentElement.appendChild.lastCall.args[0] as HTMLElement;
+    (list.lastChild as HTMLElement).onclick({} as any);
+    expect(clicked).to.be.calledWithExactly('b');
+    expect(global.requestAnimationFrame).to.be.calledTwice;
+  });
+
   it('invokes the eventHandler with "this" set to the DOM node when no bind is present', () => {
     let parentElement = { appendChild: sinon.stub() };
     let projector = createProjector({});
@@ -202,6 +541,84 @@ describe('Projector', () => {
     expect(clicked).to.be.calledWithExactly(button);
   });
 
+  it('can hydrate server-rendered DOM', () => {
+    let projector = createProjector({});
+    let handleClick = sinon.stub();
+    let renderFunction = () => h('div', [h('button', { onclick: handleClick }, ['click me'])]);
+    let container = document.createElement('div');
+    container.innerHTML = toHTML(renderFunction());
+    let element = container.firstChild as HTMLElement;
+    let button = element.firstChild as HTMLButtonElement;
+
+    projector.hydrate(element, renderFunction);
+
+    expect(element.childNodes).to.have.length(1);
+    expect(element.firstChild).to.equal(button);
+    button.onclick({} as any);
+    expect(handleClick).to.be.calledOnce;
+    expect(global.requestAnimationFrame).to.be.calledOnce;
+  });
+
+  it('keeps rendering when the root selector of a render function changes', () => {
+    let projector = createProjector({});
+    let editing = false;
+    let renderFunction = () => editing ? h('input', { value: 'text' }) : h('span', ['text']);
+    let parentElement = document.createElement('div');
+    projector.append(parentElement, renderFunction);
+
+    editing = true;
+    projector.scheduleRender();
+    global.requestAnimationFrame.callArg(0);
+    let input = parentElement.firstChild as HTMLInputElement;
+    expect(input.tagName).to.equal('INPUT');
+
+    editing = false;
+    projector.scheduleRender();
+    global.requestAnimationFrame.lastCall.callArg(0);
+    expect(parentElement.outerHTML).to.equal('<div><span>text</span></div>');
+    expect(projector.detach(renderFunction).domNode).to.equal(parentElement.firstChild);
+  });
+
+  it('invokes the afterRemoved callbacks when a projection is detached', () => {
+    let afterRemoved = sinon.stub();
+    let projector = createProjector({});
+    let renderFunction = () => h('div', [h('span', { afterRemoved })]);
+    let parentElement = document.createElement('div');
+    projector.append(parentElement, renderFunction);
+    projector.scheduleRender();
+    global.requestAnimationFrame.callArg(0);
+
+    projector.detach(renderFunction);
+    expect(afterRemoved).to.have.been.calledOnce;
+    expect(afterRemoved.lastCall.args[0]).to.equal(parentElement.firstChild.firstChild);
+  });
+
+  it('invokes the afterRemoved callbacks when stopped and the afterCreate callbacks when resumed', () => {
+    let afterCreate = sinon.stub();
+    let afterRemoved = sinon.stub();
+    let projector = createProjector({});
+    let renderFunction = () => h('div', [h('span', { afterCreate, afterRemoved })]);
+    let parentElement = document.createElement('div');
+    projector.append(parentElement, renderFunction);
+    let span = parentElement.firstChild.firstChild;
+    expect(afterCreate).to.have.been.calledOnce;
+
+    projector.stop();
+    projector.stop();
+    expect(afterRemoved).to.have.been.calledOnce;
+    expect(afterRemoved.lastCall.args[0]).to.equal(span);
+
+    projector.resume();
+    expect(afterCreate).to.have.been.calledTwice;
+    expect(afterCreate.lastCall.args[0]).to.equal(span);
+    global.requestAnimationFrame.lastCall.callArg(0);
+    expect(parentElement.firstChild.firstChild).to.equal(span);
+
+    projector.stop();
+    projector.detach(renderFunction);
+    expect(afterRemoved).to.have.been.calledTwice;
+  });
+
   it('can detach a projection', () => {
     let parentElement = { appendChild: sinon.stub() };
     let projector = createProjector({});
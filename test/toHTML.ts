@@ -0,0 +1,94 @@
+import {expect} from './utilities';
+import {h} from '../src/maquette';
+import {toHTML} from '../src/server';
+
+describe('toHTML', function() {
+
+  it('renders elements, text and nested children', function() {
+    let html = toHTML(h('div', [
+      h('span', ['hello']),
+      'world',
+      h('ul', [h('li', ['1']), h('li', ['2'])])
+    ]));
+    expect(html).to.equal('<div><span>hello</span>world<ul><li>1</li><li>2</li></ul></div>');
+  });
+
+  it('parses the selector', function() {
+    expect(toHTML(h('div.class1.class2#id'))).to.equal('<div id="id" class="class1 class2"></div>');
+    expect(toHTML(h('div#id', { id: 'other' }))).to.equal('<div id="other"></div>');
+  });
+
+  it('escapes text and attribute values', function() {
+    expect(toHTML(h('p', { title: 'say "hi" & <bye>' }, ['<script>alert(1)</script>'])))
+      .to.equal('<p title="say &quot;hi&quot; &amp; <bye>">&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+  });
+
+  it('does not escape the text of script and style elements', function() {
+    expect(toHTML(h('style', ['a > b {}']))).to.equal('<style>a > b {}</style>');
+    expect(toHTML(h('script', ['if (a < b && c) {}']))).to.equal('<script>if (a < b && c) {}</script>');
+    expect(toHTML(h('svg', [h('style', ['a > b {}'])]))).to.equal('<svg><style>a &gt; b {}</style></svg>');
+    expect(() => {
+      toHTML(h('script', ['var s = "</SCRIPT><script>alert(1)";']));
+    }).to.throw(/may not contain "<\/script"/);
+    expect(() => {
+      toHTML(h('style', ['</style']));
+    }).to.throw(/may not contain "<\/style"/);
+  });
+
+  it('combines the selector, class and classes', function() {
+    let html = toHTML(h('div.fixed', { class: 'extra special', classes: { active: true, hidden: false, fixed: true } }));
+    expect(html).to.equal('<div class="fixed extra special active"></div>');
+  });
+
+  it('renders styles', function() {
+    expect(toHTML(h('div', { styles: { height: '20px', backgroundColor: 'red', width: undefined } })))
+      .to.equal('<div style="height: 20px; background-color: red;"></div>');
+    expect(() => {
+      toHTML(h('div', { styles: { height: 20 } as any }));
+    }).to.throw(/strings/);
+  });
+
+  it('renders attributes and properties', function() {
+    expect(toHTML(h('input', { type: 'checkbox', checked: true, readOnly: false, tabIndex: 2, value: 'a' })))
+      .to.equal('<input type="checkbox" checked tabindex="2" value="a">');
+    expect(toHTML(h('textarea', { value: 'a < b' }))).to.equal('<textarea>a &lt; b</textarea>');
+  });
+
+  it('renders attrs and props', function() {
+    expect(toHTML(h('td', { attrs: { 'aria-hidden': false, colspan: 2, title: null }, props: { title: 'tip', items: [1] } })))
+      .to.equal('<td aria-hidden="false" colspan="2" title="tip"></td>');
+  });
+
+  it('inserts innerHTML without escaping', function() {
+    expect(toHTML(h('p', { innerHTML: '<span>INNER</span>' }))).to.equal('<p><span>INNER</span></p>');
+  });
+
+  it('skips event handlers, callbacks and maquette specific properties', function() {
+    let noop = () => undefined as void;
+    let properties = { key: 1, bind: {}, onclick: noop, afterCreate: noop, afterUpdate: noop, enterAnimation: 'fadeIn', exitAnimation: noop };
+    let html = toHTML(h('button', properties, ['click me']));
+    expect(html).to.equal('<button>click me</button>');
+  });
+
+  it('helps to prevent mistakes when using className', function() {
+    expect(() => {
+      toHTML(h('div', { className: 'special' }));
+    }).to.throw(/className/);
+  });
+
+  it('renders svg with xlink:href and without void elements', function() {
+    let html = toHTML(h('svg', [
+      h('image', { href: '/image.jpeg' }),
+      h('circle', { r: '1cm' })
+    ]));
+    expect(html).to.equal('<svg><image xlink:href="/image.jpeg"></image><circle r="1cm"></circle></svg>');
+    expect(toHTML(h('a', { href: '#1' }))).to.equal('<a href="#1"></a>');
+  });
+
+  it('renders the children of foreignObject as html', function() {
+    let html = toHTML(h('svg', [h('foreignObject', [h('br')]), h('a', { 'xlink:title': 'x' }, [h('br')])]));
+    expect(html).to.equal('<svg><foreignObject><br></foreignObject><a xlink:title="x"><br></br></a></svg>');
+    expect(toHTML(h('math', [h('mspace')]))).to.equal('<math><mspace></mspace></math>');
+  });
+
+});